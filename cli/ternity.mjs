@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+// @ts-check
+/**
+ * Ternity CLI — drives the running desktop app over its local control socket.
+ *
+ * Usage:
+ *   ternity status
+ *   ternity start [description] [--project <id or name>]
+ *   ternity stop
+ *   ternity resume [entryId]
+ *   ternity recent [--limit <n>]
+ *   ternity projects
+ *
+ * Add --json for the raw response. Socket and token paths mirror src/main/control-server.ts.
+ */
+
+import { createConnection } from 'node:net';
+import { readFileSync } from 'node:fs';
+import { homedir, userInfo } from 'node:os';
+import { join } from 'node:path';
+
+const CONTROL_DIR = join(homedir(), '.ternity');
+const SOCKET_PATH =
+  process.platform === 'win32'
+    ? `\\\\.\\pipe\\ternity-control-${userInfo().username}`
+    : join(CONTROL_DIR, 'control.sock');
+const TOKEN_PATH = join(CONTROL_DIR, 'control-token');
+const TIMEOUT_MS = 15_000;
+
+const USAGE = `Usage: ternity <command> [options]
+
+Commands:
+  status                              Show the running timer
+  start [description] [--project X]   Start a timer (X is a project id or name; "" for none)
+  stop                                Stop the running timer
+  resume [entryId]                    Resume an entry, or the most recent one
+  recent [--limit N]                  List recent entries
+  projects                            List projects
+
+Options:
+  --json                              Print the raw JSON response`;
+
+// ============================================================
+// Arguments
+// ============================================================
+
+/** @param {string[]} argv */
+function parseArgs(argv) {
+  /** @type {string[]} */
+  const positional = [];
+  /** @type {Record<string, string | true>} */
+  const flags = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (inline !== undefined) flags[name] = inline;
+    else if (name === 'json' || name === 'help') flags[name] = true;
+    else if (i + 1 < argv.length) flags[name] = argv[++i];
+    else fail(`Missing value for --${name}`);
+  }
+  return { positional, flags };
+}
+
+/**
+ * @param {string} command
+ * @param {string[]} positional
+ * @param {Record<string, string | true>} flags
+ * @returns {Record<string, unknown>}
+ */
+function buildArgs(command, positional, flags) {
+  switch (command) {
+    case 'start':
+      return {
+        description: positional.length > 0 ? positional.join(' ') : undefined,
+        project: typeof flags.project === 'string' ? flags.project : undefined,
+      };
+    case 'resume':
+      return { entryId: positional[0] };
+    case 'recent': {
+      const limit = typeof flags.limit === 'string' ? Number(flags.limit) : undefined;
+      if (limit !== undefined && !(limit > 0)) fail('--limit must be a positive number');
+      return { limit };
+    }
+    default:
+      return {};
+  }
+}
+
+// ============================================================
+// Transport
+// ============================================================
+
+function readToken() {
+  try {
+    return readFileSync(TOKEN_PATH, 'utf-8').trim();
+  } catch {
+    fail('Ternity is not running (no control token found)');
+  }
+}
+
+/**
+ * @param {string} command
+ * @param {Record<string, unknown>} args
+ * @returns {Promise<any>}
+ */
+function send(command, args) {
+  const token = readToken();
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(SOCKET_PATH);
+    let buffer = '';
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error('Timed out waiting for Ternity'));
+    }, TIMEOUT_MS);
+
+    socket.setEncoding('utf-8');
+    socket.on('connect', () => {
+      socket.write(`${JSON.stringify({ id: 1, token, command, args })}\n`);
+    });
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      const newline = buffer.indexOf('\n');
+      if (newline < 0) return;
+      clearTimeout(timer);
+      socket.end();
+      try {
+        resolve(JSON.parse(buffer.slice(0, newline)));
+      } catch {
+        reject(new Error('Malformed response from Ternity'));
+      }
+    });
+    socket.on('error', (err) => {
+      clearTimeout(timer);
+      const code = /** @type {NodeJS.ErrnoException} */ (err).code;
+      reject(
+        new Error(
+          code === 'ENOENT' || code === 'ECONNREFUSED' ? 'Ternity is not running' : err.message,
+        ),
+      );
+    });
+  });
+}
+
+// ============================================================
+// Output
+// ============================================================
+
+/** @param {number} seconds */
+function formatDuration(seconds) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+/** @param {{ description: string; project: string | null; elapsedSeconds: number }} entry */
+function formatEntry(entry) {
+  const description = entry.description || '(no description)';
+  const project = entry.project ? ` [${entry.project}]` : '';
+  return `${description}${project}`;
+}
+
+/**
+ * @param {string} command
+ * @param {any} data
+ */
+function print(command, data) {
+  if (command === 'recent') {
+    if (data.length === 0) console.log('No recent entries');
+    for (const entry of data) {
+      console.log(`${entry.id}  ${formatDuration(entry.elapsedSeconds)}  ${formatEntry(entry)}`);
+    }
+    return;
+  }
+  if (command === 'projects') {
+    for (const project of data) {
+      const client = project.clientName ? `  (${project.clientName})` : '';
+      console.log(`${project.id}  ${project.name}${client}`);
+    }
+    return;
+  }
+  if (command === 'status' && !data.signedIn) {
+    console.log(`Signed out (${data.environment}) — open Ternity to sign in`);
+    return;
+  }
+  const state =
+    data.running && data.entry
+      ? `Running ${formatDuration(data.entry.elapsedSeconds)}  ${formatEntry(data.entry)}`
+      : 'Not running';
+  console.log(state);
+  if (command === 'status') {
+    const tags = [data.environment, data.demo && 'demo', !data.online && 'offline'].filter(Boolean);
+    console.log(`Today ${formatDuration(data.todaySeconds)}  (${tags.join(', ')})`);
+  }
+  if (data.queued) console.log('Offline — queued, will sync when back online');
+}
+
+/** @param {string} message @returns {never} */
+function fail(message) {
+  console.error(`ternity: ${message}`);
+  process.exit(1);
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+const COMMANDS = ['status', 'start', 'stop', 'resume', 'recent', 'projects'];
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  const [command = 'status', ...rest] = positional;
+  if (flags.help || command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+  if (!COMMANDS.includes(command)) fail(`Unknown command: ${command}\n\n${USAGE}`);
+
+  const response = await send(command, buildArgs(command, rest, flags)).catch((err) =>
+    fail(err.message),
+  );
+  if (flags.json) {
+    console.log(JSON.stringify(response, null, 2));
+    if (!response.ok) process.exitCode = 1;
+    return;
+  }
+  if (!response.ok) fail(response.error);
+  print(command, response.data);
+}
+
+main();
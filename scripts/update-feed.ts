@@ -0,0 +1,110 @@
+/**
+ * Write the auto-update manifest for a release channel from the artifacts in dist/.
+ *
+ * Usage:
+ *   UPDATE_SIGNING_KEY=path/to/update-signing.key pnpm update-feed <stable|beta>
+ *
+ * Produces dist/<channel>.json listing every Ternity-Electron-<version>-<arch>.<ext> for the
+ * version in package.json, with sizes and sha512 hashes. Asset URLs are relative, so the
+ * manifest is uploaded next to the installers — the app resolves them against the feed URL.
+ *
+ * The manifest is signed into dist/<channel>.json.sig with the ed25519 release key; the app
+ * only trusts manifests signed by the public key baked in as MAIN_VITE_UPDATE_PUBLIC_KEY.
+ * Generating a key pair:
+ *   openssl genpkey -algorithm ed25519 -out update-signing.key
+ *   openssl pkey -in update-signing.key -pubout -outform DER | base64   → MAIN_VITE_UPDATE_PUBLIC_KEY
+ *
+ * Testing against a local feed (a build with the matching public key):
+ *   pnpm update-feed beta && python3 -m http.server 8000 -d dist
+ *   then Settings → Updates → Feed URL: http://localhost:8000
+ */
+
+import { createHash, createPrivateKey, sign } from 'crypto';
+import { readFileSync, readdirSync, statSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+const CHANNELS = ['stable', 'beta'];
+
+// Extension → platform + format, as the updater in src/main/updater.ts matches them
+const FORMATS: Record<string, { platform: string; format: string }> = {
+  dmg: { platform: 'darwin', format: 'dmg' },
+  exe: { platform: 'win32', format: 'exe' },
+  AppImage: { platform: 'linux', format: 'AppImage' },
+  deb: { platform: 'linux', format: 'deb' },
+  rpm: { platform: 'linux', format: 'rpm' },
+};
+
+// Packaging tools name architectures their own way
+const ARCH_ALIASES: Record<string, string> = { amd64: 'x64', x86_64: 'x64', aarch64: 'arm64' };
+
+const channel = process.argv[2];
+if (!CHANNELS.includes(channel)) {
+  console.error(`Usage: pnpm update-feed <${CHANNELS.join('|')}>`);
+  process.exit(1);
+}
+
+const signingKeyPath = process.env.UPDATE_SIGNING_KEY;
+if (!signingKeyPath || !existsSync(signingKeyPath)) {
+  console.error('UPDATE_SIGNING_KEY must point to the ed25519 release key (PEM)');
+  process.exit(1);
+}
+
+const projectRoot = join(import.meta.dirname, '..');
+const distDir = join(projectRoot, 'dist');
+const { version } = JSON.parse(readFileSync(join(projectRoot, 'package.json'), 'utf-8'));
+
+/** The CHANGELOG section for this version — [Unreleased] for snapshot builds, as in release.sh. */
+function releaseNotes(): string | undefined {
+  const changelogPath = join(projectRoot, 'CHANGELOG.md');
+  if (!existsSync(changelogPath)) return undefined;
+  const header = version.includes('-') ? 'Unreleased' : version;
+  const lines = readFileSync(changelogPath, 'utf-8').split('\n');
+  const start = lines.findIndex((line) => line.startsWith(`## [${header}]`));
+  if (start < 0) return undefined;
+  const end = lines.findIndex((line, i) => i > start && line.startsWith('## ['));
+  const notes = lines
+    .slice(start + 1, end < 0 ? undefined : end)
+    .join('\n')
+    .trim();
+  return notes || undefined;
+}
+
+const pattern = new RegExp(`^Ternity-Electron-${version.replace(/\./g, '\\.')}-([^.]+)\\.(\\w+)$`);
+const assets = readdirSync(distDir).flatMap((filename) => {
+  const match = filename.match(pattern);
+  const target = match && FORMATS[match[2]];
+  if (!match || !target) return [];
+  const path = join(distDir, filename);
+  return [
+    {
+      ...target,
+      arch: ARCH_ALIASES[match[1]] ?? match[1],
+      url: filename,
+      sha512: createHash('sha512').update(readFileSync(path)).digest('base64'),
+      size: statSync(path).size,
+    },
+  ];
+});
+
+if (assets.length === 0) {
+  console.error(`No Ternity-Electron-${version}-* artifacts in dist/`);
+  process.exit(1);
+}
+
+const manifest = {
+  version,
+  releaseDate: new Date().toISOString(),
+  notes: releaseNotes(),
+  assets,
+};
+const outPath = join(distDir, `${channel}.json`);
+const body = JSON.stringify(manifest, null, 2) + '\n';
+writeFileSync(outPath, body, 'utf-8');
+// Signed over the exact bytes written — the app verifies before parsing
+const signature = sign(null, Buffer.from(body), createPrivateKey(readFileSync(signingKeyPath)));
+writeFileSync(`${outPath}.sig`, signature.toString('base64') + '\n', 'utf-8');
+
+console.log(`${channel}.json (+ .sig) → ${version} (${assets.length} assets)`);
+for (const asset of assets) {
+  console.log(`  ${asset.platform}/${asset.arch} ${asset.format}: ${asset.url}`);
+}
@@ -0,0 +1,237 @@
+import { createLogger } from './logger';
+import { getAccessToken } from './auth';
+import { findEnvironment, type EnvironmentId } from './environments';
+import type { ApiRequestOptions, ApiResult } from './api';
+
+const log = createLogger('api');
+
+// ============================================================
+// Error codes — stable across the IPC boundary, so the renderer can switch on them
+// ============================================================
+
+export type ApiErrorCode =
+  | 'network' // never reached the server
+  | 'timeout'
+  | 'unauthorized' // no session, or 401 even after a forced token refresh
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'invalid' // 400 / 422
+  | 'rate_limited'
+  | 'server' // 5xx
+  | 'parse' // 2xx whose body isn't JSON — the request itself went through
+  | 'unknown';
+
+export function errorCodeForStatus(status: number): ApiErrorCode {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 400 || status === 422) return 'invalid';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+/** Worth another attempt later — the request itself wasn't wrong. */
+export function isTransientError(code: ApiErrorCode | undefined): boolean {
+  return code === 'network' || code === 'timeout' || code === 'server' || code === 'rate_limited';
+}
+
+// ============================================================
+// Request outcomes — did an attempt reach the server at all? (fed to the connectivity monitor)
+// ============================================================
+
+type RequestOutcomeListener = (envId: EnvironmentId, reachedServer: boolean) => void;
+
+const outcomeListeners = new Set<RequestOutcomeListener>();
+
+/** Subscribe to every settled attempt. Returns an unsubscribe function. */
+export function onApiRequestSettled(listener: RequestOutcomeListener): () => void {
+  outcomeListeners.add(listener);
+  return () => {
+    outcomeListeners.delete(listener);
+  };
+}
+
+function reportOutcome(envId: EnvironmentId, reachedServer: boolean): void {
+  for (const listener of outcomeListeners) listener(envId, reachedServer);
+}
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+// ============================================================
+// Single attempt
+// ============================================================
+
+async function send(
+  envId: EnvironmentId,
+  path: string,
+  options: ApiRequestOptions | undefined,
+  token: string,
+): Promise<ApiResult> {
+  const method = options?.method ?? 'GET';
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${token}`,
+  };
+
+  let body: string | undefined;
+  if (method !== 'GET') {
+    headers['Content-Type'] = 'application/json';
+    body = options?.body !== undefined ? JSON.stringify(options.body) : '{}';
+  }
+  if (options?.idempotencyKey) headers['Idempotency-Key'] = options.idempotencyKey;
+
+  const env = findEnvironment(envId);
+  if (!env) return { error: `Unknown environment: ${envId}`, status: 0, code: 'unknown' };
+  const url = `${env.apiBaseUrl}${path}`;
+  log.debug(`[${envId}] ${method} ${path}`);
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method,
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (err) {
+    reportOutcome(envId, false);
+    if (err instanceof Error && err.name === 'TimeoutError') {
+      log.error(`[${envId}] ${method} ${path} TIMEOUT after ${REQUEST_TIMEOUT_MS}ms`);
+      return { error: 'Request timed out', status: 0, code: 'timeout' };
+    }
+    const message = err instanceof Error ? err.message : 'Network error';
+    log.error(`[${envId}] ${method} ${path} NETWORK ERROR:`, message);
+    return { error: message, status: 0, code: 'network' };
+  }
+  reportOutcome(envId, true);
+
+  // The server answered — from here on nothing is a network error, or a mutation that
+  // already landed would be queued and replayed
+  const text = await res.text().catch(() => '');
+  if (!res.ok) {
+    log.warn(`[${envId}] ${method} ${path} → ${res.status} ${res.statusText}`, text.slice(0, 200));
+    return {
+      error: `${res.status} ${res.statusText}: ${text}`,
+      status: res.status,
+      code: errorCodeForStatus(res.status),
+    };
+  }
+
+  log.debug(`[${envId}] ${method} ${path} → ${res.status}`);
+  if (text.trim() === '') return { data: null, status: res.status }; // 204, or a bare 200
+  try {
+    return { data: JSON.parse(text), status: res.status };
+  } catch {
+    log.warn(
+      `[${envId}] ${method} ${path} → ${res.status} with a non-JSON body`,
+      text.slice(0, 200),
+    );
+    return { error: 'Invalid JSON in response', status: res.status, code: 'parse' };
+  }
+}
+
+/** One attempt, plus one retry with a force-refreshed token if the API rejects ours. */
+async function sendAuthorized(
+  envId: EnvironmentId,
+  path: string,
+  options: ApiRequestOptions | undefined,
+): Promise<ApiResult> {
+  const token = await getAccessToken(envId);
+  if (!token) {
+    log.warn(`[${envId}] No access token for ${path}`);
+    return { error: 'No access token', status: 401, code: 'unauthorized' };
+  }
+
+  const result = await send(envId, path, options, token);
+  if (result.status !== 401) return result;
+
+  // Rejected before its expiry (revoked, clock skew) — refresh once and retry
+  log.info(`[${envId}] 401 on ${path} — refreshing token and retrying`);
+  const fresh = await getAccessToken(envId, { forceRefresh: true });
+  if (!fresh || fresh === token) return result;
+  return send(envId, path, options, fresh);
+}
+
+// ============================================================
+// Recent errors — the last few failed requests, for the diagnostics bundle
+// ============================================================
+
+export interface ApiErrorRecord {
+  at: string;
+  envId: EnvironmentId;
+  method: string;
+  path: string; // without the query string
+  status: number;
+  code: ApiErrorCode | undefined;
+  message: string;
+}
+
+const MAX_RECENT_ERRORS = 50;
+const recentErrors: ApiErrorRecord[] = [];
+
+function recordError(envId: EnvironmentId, method: string, path: string, result: ApiResult): void {
+  recentErrors.push({
+    at: new Date().toISOString(),
+    envId,
+    method,
+    path: path.split('?')[0],
+    status: result.status,
+    code: result.code,
+    message: (result.error ?? '').slice(0, 300),
+  });
+  if (recentErrors.length > MAX_RECENT_ERRORS) recentErrors.shift();
+}
+
+/** Oldest first. Only the final outcome of each request — retried attempts aren't listed. */
+export function getRecentApiErrors(): ApiErrorRecord[] {
+  return [...recentErrors];
+}
+
+// ============================================================
+// Request — retries idempotent GETs, coalesces identical concurrent GETs
+// ============================================================
+
+const inflight = new Map<string, Promise<ApiResult>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function execute(
+  envId: EnvironmentId,
+  path: string,
+  options: ApiRequestOptions | undefined,
+): Promise<ApiResult> {
+  const method = options?.method ?? 'GET';
+  const retries = method === 'GET' ? GET_RETRIES : 0;
+  for (let attempt = 0; ; attempt++) {
+    const result = await sendAuthorized(envId, path, options);
+    if (!isTransientError(result.code) || attempt >= retries) {
+      if (result.error) recordError(envId, method, path, result);
+      return result;
+    }
+    const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.5);
+    log.debug(`[${envId}] Retrying ${path} in ${Math.round(delay)}ms`);
+    await sleep(delay);
+  }
+}
+
+export function request(
+  envId: EnvironmentId,
+  path: string,
+  options?: ApiRequestOptions,
+): Promise<ApiResult> {
+  if ((options?.method ?? 'GET') !== 'GET') return execute(envId, path, options);
+
+  // Popup poll, tray refresh and push handler often ask for the same thing at once
+  const key = `${envId} ${path}`;
+  const existing = inflight.get(key);
+  if (existing) return existing;
+  const pending = execute(envId, path, options).finally(() => inflight.delete(key));
+  inflight.set(key, pending);
+  return pending;
+}
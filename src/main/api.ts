@@ -0,0 +1,94 @@
+import { getConfig } from './config';
+import { createLogger } from './logger';
+import { DEFAULT_ENVIRONMENT, findEnvironment, type EnvironmentId } from './environments';
+import { handleDemoRequest } from './demo/mock-server';
+import { observeApiResponse } from './timer-state';
+import { request, errorCodeForStatus, type ApiErrorCode } from './api-client';
+
+const log = createLogger('api');
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ApiRequestOptions {
+  method?: string;
+  body?: unknown;
+  idempotencyKey?: string; // lets the server drop duplicates of a replayed mutation
+}
+
+export interface ApiResult {
+  data?: unknown;
+  error?: string;
+  status: number;
+  code?: ApiErrorCode; // set whenever `error` is
+  queued?: boolean; // held in the offline queue — `data` is the optimistic result
+}
+
+// ============================================================
+// Demo mode + active environment
+// ============================================================
+
+let demoMode = false;
+
+export function setDemoMode(enabled: boolean): void {
+  demoMode = enabled;
+}
+
+export function isDemoMode(): boolean {
+  return demoMode;
+}
+
+/** Environment the renderer is currently pointed at (persisted by `auth:set-env`). */
+export function getActiveEnvironment(): EnvironmentId {
+  const stored = getConfig().environment;
+  return stored && findEnvironment(stored) ? stored : DEFAULT_ENVIRONMENT;
+}
+
+// ============================================================
+// Response feed — successful responses for the active environment (demo included)
+// ============================================================
+
+type ApiResponseListener = (method: string, path: string, data: unknown) => void;
+
+const responseListeners = new Set<ApiResponseListener>();
+
+/** Subscribe to successful responses. Returns an unsubscribe function. */
+export function onApiResponse(listener: ApiResponseListener): () => void {
+  responseListeners.add(listener);
+  return () => {
+    responseListeners.delete(listener);
+  };
+}
+
+function observe(method: string, path: string, data: unknown): void {
+  observeApiResponse(method, path, data);
+  for (const listener of responseListeners) listener(method, path, data);
+}
+
+// ============================================================
+// Request — shared by the renderer proxy (`api:fetch`) and main-process callers
+// ============================================================
+
+export async function apiFetch(
+  envId: EnvironmentId,
+  path: string,
+  options?: ApiRequestOptions,
+): Promise<ApiResult> {
+  const method = options?.method ?? 'GET';
+
+  // Demo mode: route to in-memory mock server
+  if (demoMode) {
+    log.debug(`[demo] ${method} ${path}`);
+    const result: ApiResult = handleDemoRequest(path, options);
+    if (result.error) result.code = errorCodeForStatus(result.status);
+    if (result.data !== undefined) observe(method, path, result.data);
+    return result;
+  }
+
+  const result = await request(envId, path, options);
+  if (!result.error && envId === getActiveEnvironment()) {
+    observe(method, path, result.data);
+  }
+  return result;
+}
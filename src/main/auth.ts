@@ -1,13 +1,15 @@
 import { safeStorage, shell } from 'electron';
 import { createServer, type Server } from 'http';
 import { randomBytes, createHash } from 'crypto';
-import { readConfig, writeConfig } from './config';
+import { getConfig, setConfig } from './config';
 import { createLogger } from './logger';
 
 const log = createLogger('auth');
 
 import {
-  ENVIRONMENTS,
+  findEnvironment,
+  getEnvironment,
+  listEnvironments,
   LOGTO_REDIRECT_URI,
   LOGTO_SCOPES,
   LOGTO_API_RESOURCE,
@@ -32,6 +34,13 @@ export interface AuthState {
   user: AuthUser | null;
 }
 
+/** A stored session — one per environment, kept while others are in use. */
+export interface Account {
+  envId: EnvironmentId;
+  label: string;
+  user: AuthUser | null;
+}
+
 export interface SignInResult {
   success: boolean;
   isAuthenticated?: boolean;
@@ -39,11 +48,12 @@ export interface SignInResult {
   error?: string;
 }
 
-interface OidcConfig {
+export interface OidcConfig {
   authorization_endpoint: string;
   token_endpoint: string;
   userinfo_endpoint: string;
   end_session_endpoint?: string;
+  revocation_endpoint?: string;
   issuer: string;
 }
 
@@ -59,14 +69,16 @@ interface TokenSet {
 // OIDC Discovery (cached per endpoint)
 // ============================================================
 
+const OIDC_DISCOVERY_TIMEOUT_MS = 10_000;
+
 const oidcCache = new Map<string, OidcConfig>();
 
-async function discoverOidc(logtoEndpoint: string): Promise<OidcConfig> {
+export async function discoverOidc(logtoEndpoint: string): Promise<OidcConfig> {
   const cached = oidcCache.get(logtoEndpoint);
   if (cached) return cached;
 
   const url = `${logtoEndpoint}/oidc/.well-known/openid-configuration`;
-  const res = await fetch(url);
+  const res = await fetch(url, { signal: AbortSignal.timeout(OIDC_DISCOVERY_TIMEOUT_MS) });
   if (!res.ok) throw new Error(`OIDC discovery failed: ${res.status} ${res.statusText}`);
 
   const config = (await res.json()) as OidcConfig;
@@ -91,29 +103,19 @@ function generateCodeChallenge(verifier: string): string {
 // ============================================================
 
 function storeTokens(envId: EnvironmentId, tokens: TokenSet): void {
-  const config = readConfig();
   const json = JSON.stringify(tokens);
-
-  if (safeStorage.isEncryptionAvailable()) {
-    const encrypted = safeStorage.encryptString(json);
-    if (!config.auth) config.auth = {};
-    (config.auth as Record<string, unknown>)[envId] = encrypted.toString('base64');
-  } else {
-    // Fallback: plaintext (Linux without keyring)
-    if (!config.auth) config.auth = {};
-    (config.auth as Record<string, unknown>)[envId] = json;
-  }
-
-  writeConfig(config);
+  // Fallback: plaintext (Linux without keyring)
+  const stored = safeStorage.isEncryptionAvailable()
+    ? safeStorage.encryptString(json).toString('base64')
+    : json;
+  setConfig({ auth: { ...getConfig().auth, [envId]: stored } });
 }
 
 function loadTokens(envId: EnvironmentId): TokenSet | null {
-  const config = readConfig();
-  const auth = config.auth as Record<string, unknown> | undefined;
-  if (!auth?.[envId]) return null;
+  const stored = getConfig().auth[envId];
+  if (!stored) return null;
 
   try {
-    const stored = auth[envId] as string;
 
     if (safeStorage.isEncryptionAvailable()) {
       const buffer = Buffer.from(stored, 'base64');
@@ -128,12 +130,8 @@ function loadTokens(envId: EnvironmentId): TokenSet | null {
 }
 
 export function clearTokens(envId: EnvironmentId): void {
-  const config = readConfig();
-  const auth = config.auth as Record<string, unknown> | undefined;
-  if (auth) {
-    delete auth[envId];
-    writeConfig(config);
-  }
+  const { [envId]: _removed, ...rest } = getConfig().auth;
+  setConfig({ auth: rest });
 }
 
 // ============================================================
@@ -465,6 +463,30 @@ async function exchangeCode(
   }
 }
 
+/** Best effort — the session is cleared locally either way; this ends it on the server too. */
+async function revokeRefreshToken(
+  revocationEndpoint: string,
+  appId: string,
+  refreshToken: string,
+): Promise<void> {
+  const body = new URLSearchParams({
+    token: refreshToken,
+    token_type_hint: 'refresh_token',
+    client_id: appId,
+  });
+  try {
+    const res = await fetch(revocationEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+      signal: AbortSignal.timeout(OIDC_DISCOVERY_TIMEOUT_MS),
+    });
+    if (!res.ok) log.warn(`Token revocation failed: ${res.status}`);
+  } catch (err) {
+    log.warn('Token revocation failed:', err);
+  }
+}
+
 async function refreshTokens(
   tokenEndpoint: string,
   appId: string,
@@ -529,7 +551,10 @@ export async function signIn(envId: EnvironmentId, onProgress?: ProgressCallback
     signOutServer = null;
   }
 
-  const env = ENVIRONMENTS[envId];
+  const env = findEnvironment(envId);
+  if (!env) {
+    return { success: false, error: `Unknown environment: ${envId}` };
+  }
 
   // Local env uses stub auth — no OIDC, API accepts any request (AUTH_MODE=stub)
   if (envId === 'local') {
@@ -651,7 +676,14 @@ export function abortSignIn(): void {
   }
 }
 
-export async function signOut(envId: EnvironmentId): Promise<{ signOutPageUrl: string }> {
+/**
+ * Clear the session and revoke its refresh token. With `signOutPage`, also serve the branded
+ * sign-out page (the caller opens the returned URL) so the browser session can end too.
+ */
+export async function signOut(
+  envId: EnvironmentId,
+  { signOutPage = true }: { signOutPage?: boolean } = {},
+): Promise<{ signOutPageUrl: string | null }> {
   const tokens = loadTokens(envId);
   clearTokens(envId);
 
@@ -660,8 +692,11 @@ export async function signOut(envId: EnvironmentId): Promise<{ signOutPageUrl: s
   // Build end_session URL with post_logout_redirect_uri back to our server
   let endSessionUrl: string | null = null;
   try {
-    const env = ENVIRONMENTS[envId];
+    const env = getEnvironment(envId);
     const oidc = await discoverOidc(env.logtoEndpoint);
+    if (tokens?.refresh_token && oidc.revocation_endpoint) {
+      await revokeRefreshToken(oidc.revocation_endpoint, env.logtoAppId, tokens.refresh_token);
+    }
     if (oidc.end_session_endpoint) {
       const params = new URLSearchParams({
         client_id: env.logtoAppId,
@@ -673,6 +708,7 @@ export async function signOut(envId: EnvironmentId): Promise<{ signOutPageUrl: s
   } catch {
     // OIDC discovery failed — still show sign-out page without browser button
   }
+  if (!signOutPage) return { signOutPageUrl: null };
 
   // Start a localhost server to serve branded sign-out pages:
   // /signed-out         → initial page with "Sign out of browser" button
@@ -715,19 +751,45 @@ export function getAuthState(envId: EnvironmentId): AuthState {
   return { isAuthenticated: true, user };
 }
 
-const refreshFailures = new Map<EnvironmentId, number>();
+/** Every environment with a stored session, in environment order. */
+export function listAccounts(): Account[] {
+  return listEnvironments().flatMap((env) => {
+    const { isAuthenticated, user } = getAuthState(env.id);
+    return isAuthenticated ? [{ envId: env.id, label: env.label, user }] : [];
+  });
+}
 
-export async function getAccessToken(envId: EnvironmentId): Promise<string | null> {
+const refreshFailures = new Map<EnvironmentId, number>();
+// Refresh tokens rotate — concurrent refreshes would race each other's rotation
+const refreshing = new Map<EnvironmentId, Promise<string | null>>();
+
+/**
+ * Valid access token for `envId`, refreshing when it's about to expire.
+ * `forceRefresh` refreshes regardless — for tokens the API rejected before their expiry.
+ */
+export async function getAccessToken(
+  envId: EnvironmentId,
+  options?: { forceRefresh?: boolean },
+): Promise<string | null> {
   const tokens = loadTokens(envId);
   if (!tokens) return null;
 
   // If token is still valid (with 60s buffer), return it
   const now = Math.floor(Date.now() / 1000);
-  if (tokens.expires_at > now + 60) {
+  if (!options?.forceRefresh && tokens.expires_at > now + 60) {
     refreshFailures.delete(envId);
     return tokens.access_token;
   }
 
+  let pending = refreshing.get(envId);
+  if (!pending) {
+    pending = refreshAccessToken(envId, tokens).finally(() => refreshing.delete(envId));
+    refreshing.set(envId, pending);
+  }
+  return pending;
+}
+
+async function refreshAccessToken(envId: EnvironmentId, tokens: TokenSet): Promise<string | null> {
   // Try to refresh
   if (!tokens.refresh_token) {
     log.warn('No refresh token for', envId, '— clearing session');
@@ -736,7 +798,7 @@ export async function getAccessToken(envId: EnvironmentId): Promise<string | nul
   }
 
   try {
-    const env = ENVIRONMENTS[envId];
+    const env = getEnvironment(envId);
     const oidc = await discoverOidc(env.logtoEndpoint);
     const newTokens = await refreshTokens(
       oidc.token_endpoint,
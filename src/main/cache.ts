@@ -0,0 +1,162 @@
+import { app } from 'electron';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, rmSync } from 'fs';
+import { createLogger } from './logger';
+import { getAuthState } from './auth';
+import { getActiveEnvironment, isDemoMode, onApiResponse } from './api';
+import type { EnvironmentId } from './environments';
+import type { DayGroup, ProjectOption, Stats, TimerState, UserProfile } from './api-types';
+import { hydrateTimerState, onTimerStateChange } from './timer-state';
+
+const log = createLogger('cache');
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Last known server data for one user in one environment — shown at launch, then revalidated. */
+export interface CachedData {
+  timer: TimerState | null;
+  stats: Stats | null;
+  entries: DayGroup[] | null;
+  projects: ProjectOption[] | null;
+  profile: UserProfile | null;
+  savedAt: number; // ms timestamp
+}
+
+const EMPTY_CACHE: CachedData = {
+  timer: null,
+  stats: null,
+  entries: null,
+  projects: null,
+  profile: null,
+  savedAt: 0,
+};
+
+const SAVE_DELAY_MS = 2000;
+
+// ============================================================
+// Files — userData/cache/<env>-<hashed user id>.json
+// ============================================================
+
+function getCacheDir(): string {
+  return join(app.getPath('userData'), 'cache');
+}
+
+/** Cache file for the signed-in user — null without a session (and in demo mode). */
+function getCachePath(envId: EnvironmentId): string | null {
+  if (isDemoMode()) return null;
+  const userId = getAuthState(envId).user?.sub;
+  if (!userId) return null;
+  const userKey = createHash('sha256').update(userId).digest('hex').slice(0, 16);
+  return join(getCacheDir(), `${envId}-${userKey}.json`);
+}
+
+function load(path: string): CachedData {
+  if (!existsSync(path)) return { ...EMPTY_CACHE };
+  try {
+    return { ...EMPTY_CACHE, ...JSON.parse(readFileSync(path, 'utf-8')) };
+  } catch (err) {
+    log.warn('Unreadable cache — ignoring:', err);
+    return { ...EMPTY_CACHE };
+  }
+}
+
+// ============================================================
+// State — one in-memory copy for the active user, written back debounced
+// ============================================================
+
+let current: { path: string; data: CachedData } | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function flush(): void {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = null;
+  if (!current) return;
+  try {
+    mkdirSync(getCacheDir(), { recursive: true });
+    writeFileSync(current.path, JSON.stringify(current.data), 'utf-8');
+  } catch (err) {
+    log.error('Could not write cache:', err);
+  }
+}
+
+/** The active user's cache, switching files when the environment or user changed. */
+function open(): CachedData | null {
+  const path = getCachePath(getActiveEnvironment());
+  if (!path) return null;
+  if (current?.path !== path) {
+    flush();
+    current = { path, data: load(path) };
+  }
+  return current.data;
+}
+
+function patch(fields: Partial<CachedData>): void {
+  const data = open();
+  if (!data) return;
+  Object.assign(data, fields, { savedAt: Date.now() });
+  if (!saveTimer) saveTimer = setTimeout(flush, SAVE_DELAY_MS);
+}
+
+export function getCachedData(): CachedData | null {
+  const data = open();
+  return data && data.savedAt > 0 ? data : null;
+}
+
+function recordResponse(method: string, path: string, data: unknown): void {
+  if (method !== 'GET') return;
+  const pathname = path.split('?')[0];
+  if (pathname === '/api/stats') patch({ stats: data as Stats });
+  else if (pathname === '/api/entries') patch({ entries: data as DayGroup[] });
+  else if (pathname === '/api/projects') patch({ projects: data as ProjectOption[] });
+  else if (pathname === '/api/me') patch({ profile: data as UserProfile });
+  // /api/timer comes through the timer-state subscription — it also sees optimistic updates
+}
+
+/** Forget the user's cached data — on sign-out. */
+export function clearCache(envId: EnvironmentId): void {
+  const path = getCachePath(envId);
+  if (!path) return;
+  if (current?.path === path) {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+    current = null;
+  }
+  rmSync(path, { force: true });
+  log.info('Cleared cache for', envId);
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+let unsubscribers: (() => void)[] = [];
+
+/** Seed the main-process timer model from the active user's cache — at launch, sign-in, env switch. */
+export function hydrateFromCache(): void {
+  const cached = getCachedData();
+  if (!cached) return;
+  log.info(`Hydrating from cache saved ${new Date(cached.savedAt).toISOString()}`);
+  hydrateTimerState(cached);
+}
+
+/** Hydrate, then keep the cache in step with API responses and the timer model. */
+export function initCache(): void {
+  hydrateFromCache();
+  for (const unsubscribe of unsubscribers) unsubscribe();
+  unsubscribers = [
+    onApiResponse(recordResponse),
+    onTimerStateChange(({ running, entry, updatedAt }) => {
+      if (updatedAt === 0) return; // hydrated or reset — nothing new to store
+      patch({ timer: { running, entry } });
+    }),
+  ];
+}
+
+export function disposeCache(): void {
+  for (const unsubscribe of unsubscribers) unsubscribe();
+  unsubscribers = [];
+  flush();
+}
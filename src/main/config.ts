@@ -1,21 +1,294 @@
 import { app } from 'electron';
 import { join } from 'path';
-import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, renameSync, copyFileSync } from 'fs';
+import { createLogger } from './logger';
+import type { ShortcutMap } from './shortcuts';
+import type { PowerPolicies } from './power';
+import type { LongTimerSettings } from './long-timer';
+import type { NotificationSettings } from './notifications';
+import type { LocalApiSettings } from './local-api';
+import type { HookConfig } from './hooks';
+import type { UpdateSettings } from './updater';
+import type { LoggingSettings } from './log-settings';
+import type { EnvironmentConfig } from './environments';
+
+const log = createLogger('config');
+
+// ============================================================
+// Schema — every key in config.json, with its default
+// ============================================================
+// Feature settings are stored as partial objects; the owning module fills in
+// its defaults and sanitizes values on read. null = never set.
+
+export interface AppConfig {
+  version: number;
+  environment: string | null;
+  customEnvironments: EnvironmentConfig[];
+  auth: Record<string, string>; // envId → token set (safeStorage-encrypted base64, or plain JSON)
+  rememberPosition: boolean;
+  windowX: number | null;
+  windowY: number | null;
+  windowHeight: number | null;
+  stayOnTop: boolean;
+  defaultProjectId: string | null;
+  idleThresholdMinutes: number | null;
+  shortcuts: Partial<ShortcutMap> | null;
+  powerPolicies: Partial<PowerPolicies> | null;
+  longTimer: Partial<LongTimerSettings> | null;
+  notifications: Partial<NotificationSettings> | null;
+  localApi: Partial<LocalApiSettings> | null;
+  hooks: HookConfig[];
+  updates: Partial<UpdateSettings> | null;
+  logging: Partial<LoggingSettings> | null;
+  pendingShutdown: { entryId: string; at: string } | null;
+}
+
+export type ConfigKey = keyof AppConfig;
+
+const CONFIG_VERSION = 1;
+
+const DEFAULTS: AppConfig = {
+  version: CONFIG_VERSION,
+  environment: null,
+  customEnvironments: [],
+  auth: {},
+  rememberPosition: false,
+  windowX: null,
+  windowY: null,
+  windowHeight: null,
+  stayOnTop: false,
+  defaultProjectId: null,
+  idleThresholdMinutes: null,
+  shortcuts: null,
+  powerPolicies: null,
+  longTimer: null,
+  notifications: null,
+  localApi: null,
+  hooks: [],
+  updates: null,
+  logging: null,
+  pendingShutdown: null,
+};
+
+type Validator = (value: unknown) => boolean;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const nullable =
+  (validator: Validator): Validator =>
+  (value) =>
+    value === null || validator(value);
+
+const ENVIRONMENT_FIELDS = [
+  'id',
+  'label',
+  'apiBaseUrl',
+  'webAppUrl',
+  'logtoEndpoint',
+  'logtoAppId',
+] as const satisfies readonly (keyof EnvironmentConfig)[];
+
+const isEnvironment: Validator = (env) =>
+  isObject(env) &&
+  ENVIRONMENT_FIELDS.every((field) => typeof env[field] === 'string' && env[field] !== '');
+
+const isHook: Validator = (hook) =>
+  isObject(hook) &&
+  typeof hook.id === 'string' &&
+  (hook.kind === 'command' || hook.kind === 'webhook') &&
+  typeof hook.target === 'string' &&
+  Array.isArray(hook.events);
+
+const arrayOf =
+  (validator: Validator): Validator =>
+  (value) =>
+    Array.isArray(value) && value.every(validator);
+
+// Arrays of independent items — on load, a bad item is dropped rather than the whole list
+const ARRAY_ITEMS: Partial<Record<ConfigKey, Validator>> = {
+  customEnvironments: isEnvironment,
+  hooks: isHook,
+};
+
+const SCHEMA: Record<ConfigKey, Validator> = {
+  version: isNumber,
+  environment: nullable((value) => typeof value === 'string'),
+  customEnvironments: arrayOf(isEnvironment),
+  auth: (value) => isObject(value) && Object.values(value).every((v) => typeof v === 'string'),
+  rememberPosition: isBoolean,
+  windowX: nullable(isNumber),
+  windowY: nullable(isNumber),
+  windowHeight: nullable(isNumber),
+  stayOnTop: isBoolean,
+  defaultProjectId: nullable((value) => typeof value === 'string'),
+  idleThresholdMinutes: nullable(isNumber),
+  shortcuts: nullable(isObject),
+  powerPolicies: nullable(isObject),
+  longTimer: nullable(isObject),
+  notifications: nullable(isObject),
+  localApi: nullable(isObject),
+  hooks: arrayOf(isHook),
+  updates: nullable(isObject),
+  logging: nullable(isObject),
+  pendingShutdown: nullable(
+    (value) => isObject(value) && typeof value.entryId === 'string' && typeof value.at === 'string',
+  ),
+};
+
+// ============================================================
+// Migrations — MIGRATIONS[n] upgrades a version-n file to n + 1
+// ============================================================
+
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // 0 → 1: the long-timer notification toggle moved into the notification categories
+  0: (raw) => {
+    const longTimer = isObject(raw.longTimer) ? { ...raw.longTimer } : null;
+    if (!longTimer || !('notify' in longTimer)) return raw;
+    const notifications = isObject(raw.notifications) ? raw.notifications : {};
+    const categories = isObject(notifications.categories) ? notifications.categories : {};
+    const notify = longTimer.notify;
+    delete longTimer.notify;
+    return {
+      ...raw,
+      longTimer,
+      notifications:
+        notify === false
+          ? { ...notifications, categories: { ...categories, longTimer: false } }
+          : notifications,
+    };
+  },
+};
+
+function migrate(raw: Record<string, unknown>): Record<string, unknown> {
+  let version = isNumber(raw.version) ? (raw.version as number) : 0;
+  if (version > CONFIG_VERSION) {
+    log.warn(`config.json is version ${version}, newer than this build (${CONFIG_VERSION})`);
+    return raw;
+  }
+  let migrated = raw;
+  while (version < CONFIG_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version++;
+    log.info(`Migrated config to version ${version}`);
+  }
+  return { ...migrated, version };
+}
+
+/** Known keys only, invalid values reset to their default. */
+function sanitize(raw: Record<string, unknown>): AppConfig {
+  const config = { ...DEFAULTS } as Record<ConfigKey, unknown>;
+  for (const key of Object.keys(SCHEMA) as ConfigKey[]) {
+    let value = raw[key];
+    if (value === undefined) continue;
+    const isItem = ARRAY_ITEMS[key];
+    if (isItem && Array.isArray(value)) {
+      const valid = value.filter(isItem);
+      if (valid.length < value.length) {
+        log.warn(`Dropping ${value.length - valid.length} invalid item(s) from ${key}`);
+      }
+      value = valid;
+    }
+    if (SCHEMA[key](value)) config[key] = value;
+    else log.warn(`Ignoring invalid config value for ${key}:`, value);
+  }
+  return config as AppConfig;
+}
+
+// ============================================================
+// Persistence — atomic write-then-rename; a corrupt file is backed up, not discarded
+// ============================================================
 
 export function getConfigPath(): string {
   return join(app.getPath('userData'), 'config.json');
 }
 
-export function readConfig(): Record<string, unknown> {
-  const configPath = getConfigPath();
-  if (!existsSync(configPath)) return {};
+function backUpCorruptFile(path: string, err: unknown): void {
+  const backupPath = `${path}.corrupt-${Date.now()}`;
+  try {
+    copyFileSync(path, backupPath);
+    log.error(
+      `config.json is unreadable — backed up to ${backupPath}, starting from defaults:`,
+      err,
+    );
+  } catch (copyErr) {
+    log.error('config.json is unreadable and could not be backed up:', err, copyErr);
+  }
+}
+
+function load(): AppConfig {
+  const path = getConfigPath();
+  if (!existsSync(path)) return { ...DEFAULTS };
+
+  let raw: unknown;
   try {
-    return JSON.parse(readFileSync(configPath, 'utf-8'));
-  } catch {
-    return {};
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    backUpCorruptFile(path, err);
+    return { ...DEFAULTS };
+  }
+  if (!isObject(raw)) {
+    backUpCorruptFile(path, new Error('top level is not an object'));
+    return { ...DEFAULTS };
   }
+
+  const config = sanitize(migrate(raw));
+  if (raw.version !== config.version) save(config);
+  return config;
+}
+
+function save(config: AppConfig): void {
+  const path = getConfigPath();
+  const tmpPath = `${path}.tmp`;
+  try {
+    writeFileSync(tmpPath, JSON.stringify(config, null, 2), 'utf-8');
+    renameSync(tmpPath, path); // atomic on the same volume — a crash never leaves half a file
+  } catch (err) {
+    log.error('Could not write config.json:', err);
+  }
+}
+
+// ============================================================
+// Store — cached in memory, changes broadcast to subscribers
+// ============================================================
+
+export type ConfigListener = (config: Readonly<AppConfig>, changed: ConfigKey[]) => void;
+
+let cache: AppConfig | null = null;
+const listeners = new Set<ConfigListener>();
+
+export function getConfig(): Readonly<AppConfig> {
+  cache ??= load();
+  return cache;
+}
+
+export function getConfigValue<K extends ConfigKey>(key: K): AppConfig[K] {
+  return getConfig()[key];
+}
+
+/** Merge `patch` into the config, persist it and notify subscribers of the keys that changed. */
+export function setConfig(patch: Partial<AppConfig>): void {
+  const current = getConfig();
+  const changed = (Object.keys(patch) as ConfigKey[]).filter((key) => {
+    if (JSON.stringify(patch[key]) === JSON.stringify(current[key])) return false;
+    if (SCHEMA[key](patch[key])) return true;
+    log.warn(`Refusing invalid config value for ${key}:`, patch[key]);
+    return false;
+  });
+  if (changed.length === 0) return;
+
+  const next = { ...current } as Record<ConfigKey, unknown>;
+  for (const key of changed) next[key] = patch[key];
+  cache = next as AppConfig;
+  save(cache);
+  for (const listener of listeners) listener(cache, changed);
 }
 
-export function writeConfig(config: Record<string, unknown>): void {
-  writeFileSync(getConfigPath(), JSON.stringify(config, null, 2), 'utf-8');
+/** Subscribe to config changes. Returns an unsubscribe function. */
+export function onConfigChange(listener: ConfigListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
 }
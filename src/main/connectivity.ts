@@ -0,0 +1,160 @@
+import { BrowserWindow, net, powerMonitor } from 'electron';
+import { createLogger } from './logger';
+import { getEnvironment, type EnvironmentId } from './environments';
+import { getActiveEnvironment, isDemoMode } from './api';
+import { onApiRequestSettled } from './api-client';
+
+const log = createLogger('net');
+
+// ============================================================
+// Types
+// ============================================================
+
+/** network = no usable network interface, server = network up but the API doesn't answer. */
+export type OfflineReason = 'network' | 'server';
+
+export interface ConnectivityState {
+  online: boolean;
+  reason: OfflineReason | null;
+  since: number; // ms timestamp of the last flip
+}
+
+export type ConnectivityListener = (state: ConnectivityState) => void;
+
+const CHECK_INTERVAL_MS = 15_000;
+const QUIET_CHECK_AFTER_MS = 60_000; // health-check when no request has reached the server for this long
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+const FAILURES_BEFORE_OFFLINE = 2; // a single dropped request isn't an outage
+
+// ============================================================
+// State — pushed to every window on `connectivity:changed`
+// ============================================================
+
+let state: ConnectivityState = { online: true, reason: null, since: Date.now() };
+const listeners = new Set<ConnectivityListener>();
+let consecutiveFailures = 0;
+let lastContactAt = 0;
+
+function setState(online: boolean, reason: OfflineReason | null): void {
+  if (state.online === online && state.reason === reason) return;
+  state = { online, reason, since: Date.now() };
+  log.info(online ? 'Back online' : `Offline (${reason})`);
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send('connectivity:changed', state);
+  }
+  for (const listener of listeners) listener(state);
+}
+
+function markReached(): void {
+  consecutiveFailures = 0;
+  lastContactAt = Date.now();
+  setState(true, null);
+}
+
+export function getConnectivity(): ConnectivityState {
+  return state;
+}
+
+export function isOnline(): boolean {
+  return state.online;
+}
+
+/** Subscribe to online/offline flips. Returns an unsubscribe function. */
+export function onConnectivityChange(listener: ConnectivityListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================
+// Signals — request outcomes from the API proxy, plus periodic health checks
+// ============================================================
+
+function recordOutcome(envId: EnvironmentId, reachedServer: boolean): void {
+  if (envId !== getActiveEnvironment()) return;
+  if (reachedServer) {
+    markReached();
+    return;
+  }
+  consecutiveFailures++;
+  if (!net.isOnline()) setState(false, 'network');
+  else if (consecutiveFailures >= FAILURES_BEFORE_OFFLINE) setState(false, 'server');
+}
+
+/** Any HTTP response counts — we only care that the server answered. */
+async function pingServer(): Promise<boolean> {
+  const { apiBaseUrl } = getEnvironment(getActiveEnvironment());
+  try {
+    await net.fetch(`${apiBaseUrl}/api/health`, {
+      method: 'HEAD',
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+    return true;
+  } catch (err) {
+    log.debug('Health check failed:', err instanceof Error ? err.message : err);
+    return false;
+  }
+}
+
+let checking: Promise<void> | null = null;
+
+/** Re-evaluate now — after wake, environment switches or demo mode toggles. */
+export function checkConnectivity(): Promise<void> {
+  if (isDemoMode()) {
+    markReached();
+    return Promise.resolve();
+  }
+  if (!net.isOnline()) {
+    setState(false, 'network');
+    return Promise.resolve();
+  }
+  checking ??= pingServer()
+    .then((reached) => {
+      if (reached) markReached();
+      else setState(false, 'server');
+    })
+    .finally(() => {
+      checking = null;
+    });
+  return checking;
+}
+
+function tick(): void {
+  // net.isOnline() is free — only ping when offline or when real traffic has gone quiet
+  if (!isDemoMode() && !net.isOnline()) {
+    setState(false, 'network');
+    return;
+  }
+  if (!state.online || Date.now() - lastContactAt >= QUIET_CHECK_AFTER_MS) {
+    checkConnectivity();
+  }
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+let checkTimer: ReturnType<typeof setInterval> | null = null;
+let unsubscribe: (() => void) | null = null;
+
+function handleResume(): void {
+  checkConnectivity();
+}
+
+export function initConnectivityMonitor(): void {
+  unsubscribe?.();
+  unsubscribe = onApiRequestSettled(recordOutcome);
+  powerMonitor.on('resume', handleResume);
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = setInterval(tick, CHECK_INTERVAL_MS);
+  checkConnectivity();
+}
+
+export function disposeConnectivityMonitor(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  powerMonitor.removeListener('resume', handleResume);
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = null;
+}
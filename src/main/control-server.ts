@@ -0,0 +1,182 @@
+import { createServer, createConnection, type Server, type Socket } from 'net';
+import { homedir, userInfo } from 'os';
+import { join } from 'path';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { mkdirSync, writeFileSync, rmSync, chmodSync } from 'fs';
+import { createLogger } from './logger';
+
+const log = createLogger('control');
+
+// ============================================================
+// Local control endpoint — newline-delimited JSON over a Unix socket / named pipe,
+// for the `ternity` CLI (cli/ternity.mjs), editors and scripts. Paths are mirrored there.
+// The loopback HTTP API (local-api.ts) routes to the same handlers.
+// ============================================================
+
+export type ControlCommand = 'status' | 'start' | 'stop' | 'resume' | 'recent' | 'projects';
+
+/** One line from the client. `token` must match the per-user token file. */
+interface ControlRequest {
+  id?: string | number;
+  token?: string;
+  command?: string;
+  args?: Record<string, unknown>;
+}
+
+type ControlResponse =
+  | { id?: string | number; ok: true; data: unknown }
+  | { id?: string | number; ok: false; error: string };
+
+/** Handlers resolve with the response data, or throw with a message for the client. */
+export type ControlHandlers = Record<
+  ControlCommand,
+  (args: Record<string, unknown>) => Promise<unknown>
+>;
+
+const CONTROL_COMMANDS: ControlCommand[] = [
+  'status',
+  'start',
+  'stop',
+  'resume',
+  'recent',
+  'projects',
+];
+const MAX_LINE_BYTES = 64 * 1024;
+
+/** ~/.ternity — fixed so the CLI finds it regardless of the app's userData (dev vs packaged). */
+export function getControlDir(): string {
+  return join(homedir(), '.ternity');
+}
+
+export function getControlSocketPath(): string {
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\ternity-control-${userInfo().username}`
+    : join(getControlDir(), 'control.sock');
+}
+
+function getTokenPath(): string {
+  return join(getControlDir(), 'control-token');
+}
+
+// ============================================================
+// Requests
+// ============================================================
+
+let server: Server | null = null;
+let token: Buffer | null = null;
+let handlers: ControlHandlers | null = null;
+
+function isAuthorized(candidate: unknown): boolean {
+  if (!token || typeof candidate !== 'string') return false;
+  const given = Buffer.from(candidate);
+  return given.length === token.length && timingSafeEqual(given, token);
+}
+
+async function handleRequest(line: string): Promise<ControlResponse> {
+  let request: ControlRequest;
+  try {
+    request = JSON.parse(line) as ControlRequest;
+  } catch {
+    return { ok: false, error: 'Malformed request' };
+  }
+  const { id } = request;
+  if (!isAuthorized(request.token)) return { id, ok: false, error: 'Invalid token' };
+
+  const command = request.command as ControlCommand;
+  if (!handlers || !CONTROL_COMMANDS.includes(command)) {
+    return { id, ok: false, error: `Unknown command: ${request.command}` };
+  }
+
+  try {
+    log.info('Command:', command);
+    const data = await handlers[command](request.args ?? {});
+    return { id, ok: true, data: data ?? null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Command failed';
+    log.warn(`Command ${command} failed:`, message);
+    return { id, ok: false, error: message };
+  }
+}
+
+function handleConnection(socket: Socket): void {
+  let buffer = '';
+  socket.setEncoding('utf-8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    if (buffer.length > MAX_LINE_BYTES) {
+      socket.end(`${JSON.stringify({ ok: false, error: 'Request too large' })}\n`);
+      return;
+    }
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+      handleRequest(line).then((response) => {
+        if (!socket.destroyed) socket.write(`${JSON.stringify(response)}\n`);
+      });
+    }
+  });
+  socket.on('error', (err) => log.debug('Client error:', err.message));
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+/** A leftover socket file from a crash refuses connections; a live one means another app owns it. */
+function isSocketInUse(path: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = createConnection(path);
+    probe.once('connect', () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => resolve(false));
+  });
+}
+
+function writeToken(): void {
+  const dir = getControlDir();
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const value = randomBytes(32).toString('hex');
+  writeFileSync(getTokenPath(), value, { encoding: 'utf-8', mode: 0o600 });
+  chmodSync(getTokenPath(), 0o600); // mode only applies when the file is created
+  token = Buffer.from(value);
+}
+
+/** Start listening with a fresh token — a new token per launch invalidates any that leaked. */
+export async function initControlServer(controlHandlers: ControlHandlers): Promise<void> {
+  handlers = controlHandlers;
+  const socketPath = getControlSocketPath();
+  try {
+    if (process.platform !== 'win32') {
+      if (await isSocketInUse(socketPath)) {
+        log.warn('Control socket is held by another instance — not listening');
+        return;
+      }
+      rmSync(socketPath, { force: true });
+    }
+    writeToken();
+  } catch (err) {
+    log.error('Could not prepare control endpoint:', err);
+    return;
+  }
+
+  server = createServer(handleConnection);
+  server.on('error', (err) => log.error('Control server error:', err.message));
+  server.listen(socketPath, () => {
+    if (process.platform !== 'win32') chmodSync(socketPath, 0o600);
+    log.info('Control endpoint listening on', socketPath);
+  });
+}
+
+export function disposeControlServer(): void {
+  handlers = null;
+  token = null;
+  if (!server) return;
+  server.close();
+  server = null;
+  rmSync(getTokenPath(), { force: true });
+  if (process.platform !== 'win32') rmSync(getControlSocketPath(), { force: true });
+}
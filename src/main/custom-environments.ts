@@ -0,0 +1,110 @@
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+import { discoverOidc } from './auth';
+import {
+  BUILT_IN_ENVIRONMENTS,
+  findEnvironment,
+  type EnvironmentConfig,
+  type EnvironmentId,
+} from './environments';
+
+const log = createLogger('env');
+
+// ============================================================
+// Types
+// ============================================================
+
+/** What the settings form collects — the id is derived from the label. */
+export interface CustomEnvironmentInput {
+  label: string;
+  apiBaseUrl: string;
+  webAppUrl: string;
+  logtoEndpoint: string;
+  logtoAppId: string;
+}
+
+export interface AddEnvironmentResult {
+  success: boolean;
+  environment?: EnvironmentConfig;
+  error?: string;
+}
+
+const URL_FIELDS = [
+  ['apiBaseUrl', 'API URL'],
+  ['webAppUrl', 'Web app URL'],
+  ['logtoEndpoint', 'Logto endpoint'],
+] as const;
+
+// ============================================================
+// Validation
+// ============================================================
+
+/** `https://host/path/` → `https://host/path`; null unless http(s). */
+function normalizeUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+function slugify(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// ============================================================
+// Add / remove — persisted as `customEnvironments` in config.json
+// ============================================================
+
+/** Validate the form, confirm the Logto endpoint answers OIDC discovery, then save. */
+export async function addCustomEnvironment(
+  input: CustomEnvironmentInput,
+): Promise<AddEnvironmentResult> {
+  const label = input.label.trim();
+  const id = slugify(label);
+  if (!id) return { success: false, error: 'Name is required' };
+  if (id in BUILT_IN_ENVIRONMENTS || findEnvironment(id)) {
+    return { success: false, error: `An environment named "${label}" already exists` };
+  }
+
+  const logtoAppId = input.logtoAppId.trim();
+  if (!logtoAppId) return { success: false, error: 'Logto app ID is required' };
+
+  const urls = {} as Record<(typeof URL_FIELDS)[number][0], string>;
+  for (const [field, name] of URL_FIELDS) {
+    const url = normalizeUrl(input[field]);
+    if (!url) return { success: false, error: `${name} must be an http(s) URL` };
+    urls[field] = url;
+  }
+
+  try {
+    const oidc = await discoverOidc(urls.logtoEndpoint);
+    if (!oidc.authorization_endpoint || !oidc.token_endpoint) {
+      throw new Error('discovery document has no authorization or token endpoint');
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    log.warn(`OIDC discovery failed for ${urls.logtoEndpoint}:`, message);
+    return { success: false, error: `Logto endpoint not reachable: ${message}` };
+  }
+
+  const environment: EnvironmentConfig = { id, label, ...urls, logtoAppId, custom: true };
+  setConfig({ customEnvironments: [...getConfig().customEnvironments, environment] });
+  log.info(`Added environment ${id} (${urls.apiBaseUrl})`);
+  return { success: true, environment };
+}
+
+/** Forget a user-defined environment. Built-ins can't be removed. */
+export function removeCustomEnvironment(envId: EnvironmentId): boolean {
+  const { customEnvironments } = getConfig();
+  const remaining = customEnvironments.filter((env) => env.id !== envId);
+  if (remaining.length === customEnvironments.length) return false;
+  setConfig({ customEnvironments: remaining });
+  log.info('Removed environment', envId);
+  return true;
+}
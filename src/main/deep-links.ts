@@ -0,0 +1,132 @@
+import { app } from 'electron';
+import { resolve } from 'path';
+import { createLogger } from './logger';
+
+const log = createLogger('deeplink');
+
+// ============================================================
+// Types — ternity://start?description=&project=, stop, resume/<entryId>, open, settings
+// ============================================================
+
+export const DEEP_LINK_PROTOCOL = 'ternity';
+
+export type DeepLinkAction =
+  | { type: 'start'; description?: string; project?: string }
+  | { type: 'stop' }
+  | { type: 'resume'; entryId: string }
+  | { type: 'open' }
+  | { type: 'settings' };
+
+export type DeepLinkHandlers = {
+  [K in DeepLinkAction['type']]: (action: Extract<DeepLinkAction, { type: K }>) => void;
+};
+
+// ============================================================
+// Parsing
+// ============================================================
+
+// Entry ids are UUIDs or `local-…` — anything else (`..%2F`, slashes) could retarget the API path
+const ENTRY_ID_PATTERN = /^[\w-]+$/;
+
+/** null for anything that isn't a well-formed ternity:// link we know. */
+export function parseDeepLink(url: string): DeepLinkAction | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== `${DEEP_LINK_PROTOCOL}:`) return null;
+
+  // ternity://resume/abc → host "resume", path "/abc"; Windows may append a trailing slash
+  const [param] = parsed.pathname.split('/').filter(Boolean);
+  const query = parsed.searchParams;
+
+  switch (parsed.hostname) {
+    case 'start':
+      return {
+        type: 'start',
+        description: query.get('description') ?? undefined,
+        project: query.get('project') ?? undefined,
+      };
+    case 'stop':
+      return { type: 'stop' };
+    case 'resume':
+      return param && ENTRY_ID_PATTERN.test(param) ? { type: 'resume', entryId: param } : null;
+    case 'open':
+      return { type: 'open' };
+    case 'settings':
+      return { type: 'settings' };
+    default:
+      return null;
+  }
+}
+
+/** Windows and Linux pass the link as a command-line argument (first launch and `second-instance`). */
+export function findDeepLink(argv: string[]): string | null {
+  return argv.find((arg) => arg.startsWith(`${DEEP_LINK_PROTOCOL}://`)) ?? null;
+}
+
+// ============================================================
+// Dispatch — links can arrive before the app is ready (macOS `open-url`, launch argv)
+// ============================================================
+
+let handlers: DeepLinkHandlers | null = null;
+const pending: string[] = [];
+
+function dispatch(action: DeepLinkAction, activeHandlers: DeepLinkHandlers): void {
+  // Each handler takes its own action type — the switch keeps that pairing checked
+  switch (action.type) {
+    case 'start':
+      return activeHandlers.start(action);
+    case 'stop':
+      return activeHandlers.stop(action);
+    case 'resume':
+      return activeHandlers.resume(action);
+    case 'open':
+      return activeHandlers.open(action);
+    case 'settings':
+      return activeHandlers.settings(action);
+  }
+}
+
+export function handleDeepLink(url: string): void {
+  if (!handlers) {
+    pending.push(url);
+    return;
+  }
+  const action = parseDeepLink(url);
+  if (!action) {
+    log.warn('Ignoring unknown deep link:', url);
+    return;
+  }
+  log.info('Deep link:', action.type);
+  dispatch(action, handlers);
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+function registerProtocolClient(): void {
+  // Unpackaged (electron .) the OS must launch electron with our entry script, not the bare binary
+  const registered = process.defaultApp
+    ? app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL, process.execPath, [
+        resolve(process.argv[1]),
+      ])
+    : app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL);
+  if (!registered) log.warn(`Could not register as the ${DEEP_LINK_PROTOCOL}:// handler`);
+}
+
+/** Register the protocol, then run links that arrived early — including the one we were launched with. */
+export function initDeepLinks(deepLinkHandlers: DeepLinkHandlers): void {
+  handlers = deepLinkHandlers;
+  registerProtocolClient();
+  const launchUrl = findDeepLink(process.argv);
+  if (launchUrl) pending.push(launchUrl);
+  for (const url of pending.splice(0)) handleDeepLink(url);
+}
+
+export function disposeDeepLinks(): void {
+  handlers = null;
+}
@@ -45,6 +45,10 @@ interface DayGroup {
   entries: Entry[];
 }
 
+type ServerEvent =
+  | { type: 'timer.changed'; data: { running: boolean; entry: Entry | null } }
+  | { type: 'entries.changed'; data: { entryId: string | null } };
+
 interface SeedEntry {
   dayOffset: number;
   timeOfDay: string;
@@ -221,16 +225,20 @@ function handleGetEntries(path: string): { data: DayGroup[]; status: number } {
   return { data: dayGroups, status: 200 };
 }
 
-function stopRunningEntry(): void {
+function stopRunningEntry(stoppedAt?: string): void {
   if (!runningEntryId) return;
   const entry = entries.find((e) => e.id === runningEntryId);
   if (entry) {
     const lastSeg = entry.segments[entry.segments.length - 1];
     if (lastSeg && !lastSeg.stoppedAt) {
-      lastSeg.stoppedAt = new Date().toISOString();
-      lastSeg.durationSeconds = Math.floor(
-        (new Date(lastSeg.stoppedAt).getTime() - new Date(lastSeg.startedAt!).getTime()) / 1000,
-      );
+      // Explicit stop time (e.g. discarding idle time) — clamp to the segment's span
+      const startMs = new Date(lastSeg.startedAt!).getTime();
+      const requestedMs = stoppedAt ? new Date(stoppedAt).getTime() : NaN;
+      const stopMs = Number.isNaN(requestedMs)
+        ? Date.now()
+        : Math.min(Date.now(), Math.max(startMs, requestedMs));
+      lastSeg.stoppedAt = new Date(stopMs).toISOString();
+      lastSeg.durationSeconds = Math.floor((stopMs - startMs) / 1000);
     }
     entry.totalDurationSeconds = entry.segments.reduce(
       (sum, s) => sum + (s.durationSeconds ?? 0),
@@ -242,11 +250,15 @@ function stopRunningEntry(): void {
 }
 
 function handleTimerStart(body?: unknown): { data: { running: boolean; entry: Entry }; status: number } {
-  stopRunningEntry();
+  const { description, projectId, startedAt } =
+    (body as { description?: string; projectId?: string; startedAt?: string }) ?? {};
+  // Replayed offline starts carry the time they were made — never in the future
+  const requestedMs = startedAt ? new Date(startedAt).getTime() : NaN;
+  const startMs = Number.isNaN(requestedMs) ? Date.now() : Math.min(Date.now(), requestedMs);
+  const now = new Date(startMs).toISOString();
+  stopRunningEntry(now);
 
-  const { description, projectId } = (body as { description?: string; projectId?: string }) ?? {};
   const project = findProject(projectId ?? null);
-  const now = new Date().toISOString();
   const id = genId();
 
   const entry: Entry = {
@@ -280,26 +292,79 @@ function handleTimerStart(body?: unknown): { data: { running: boolean; entry: En
   return { data: { running: true, entry }, status: 200 };
 }
 
-function handleTimerStop(): { data: { running: boolean; entry: null }; status: number } {
-  stopRunningEntry();
+function handleTimerStop(body?: unknown): { data: { running: boolean; entry: null }; status: number } {
+  const { stoppedAt } = (body as { stoppedAt?: string }) ?? {};
+  stopRunningEntry(stoppedAt);
   return { data: { running: false, entry: null }, status: 200 };
 }
 
-function handleTimerResume(entryId: string): {
+function handleTimerResume(
+  entryId: string,
+  body?: unknown,
+): {
   data: { running: boolean; entry: Entry };
   status: number;
 } {
+  const { startedAt } = (body as { startedAt?: string }) ?? {};
   const original = entries.find((e) => e.id === entryId);
   if (!original) {
-    return handleTimerStart({});
+    return handleTimerStart({ startedAt });
   }
 
   return handleTimerStart({
     description: original.description,
     projectId: original.projectId,
+    startedAt,
   });
 }
 
+function handleCreateEntry(
+  body?: unknown,
+): { data: Entry; status: number } | { error: string; status: number } {
+  const { description, projectId, startedAt, stoppedAt } =
+    (body as { description?: string; projectId?: string | null; startedAt?: string; stoppedAt?: string }) ?? {};
+  if (!startedAt || !stoppedAt) {
+    return { error: 'startedAt and stoppedAt are required', status: 400 };
+  }
+  const durationSeconds = Math.floor(
+    (new Date(stoppedAt).getTime() - new Date(startedAt).getTime()) / 1000,
+  );
+  if (!(durationSeconds >= 0)) {
+    return { error: 'stoppedAt must be after startedAt', status: 400 };
+  }
+
+  const project = findProject(projectId ?? null);
+  const id = genId();
+  const entry: Entry = {
+    id,
+    description: description ?? '',
+    projectId: project?.id ?? null,
+    projectName: project?.name ?? null,
+    projectColor: project?.color ?? null,
+    clientName: project?.clientName ?? null,
+    labels: [],
+    segments: [
+      {
+        id: `seg-${id}`,
+        type: 'clocked',
+        startedAt,
+        stoppedAt,
+        durationSeconds,
+        note: null,
+        createdAt: startedAt,
+      },
+    ],
+    totalDurationSeconds: durationSeconds,
+    isRunning: false,
+    createdAt: startedAt,
+    userId: 'demo-user-001',
+  };
+
+  entries.push(entry);
+  entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  return { data: entry, status: 201 };
+}
+
 function handlePatchEntry(
   entryId: string,
   body?: unknown,
@@ -335,6 +400,24 @@ function handlePatchEntry(
   return { data: entry, status: 200 };
 }
 
+// --- Events (stand-in for the /api/events stream) ---
+
+const eventListeners = new Set<(event: ServerEvent) => void>();
+
+function emitEvent(event: ServerEvent): void {
+  // Like the real stream, events arrive after the response that caused them
+  setTimeout(() => {
+    for (const listener of eventListeners) listener(event);
+  }, 0);
+}
+
+export function onDemoEvent(listener: (event: ServerEvent) => void): () => void {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+}
+
 // --- Public API ---
 
 export function initDemo(): void {
@@ -358,6 +441,18 @@ export function resetDemo(): void {
   nextId = 1;
 }
 
+function withTimerEvent<T extends { status: number }>(result: T): T {
+  if (result.status < 400) emitEvent({ type: 'timer.changed', data: handleGetTimer().data });
+  return result;
+}
+
+function withEntriesEvent<T extends { data?: Entry; status: number }>(result: T): T {
+  if (result.status < 400) {
+    emitEvent({ type: 'entries.changed', data: { entryId: result.data?.id ?? null } });
+  }
+  return result;
+}
+
 export function handleDemoRequest(
   path: string,
   options?: { method?: string; body?: unknown },
@@ -375,17 +470,22 @@ export function handleDemoRequest(
 
   // POST routes
   if (method === 'POST') {
-    if (path === '/api/timer/start') return handleTimerStart(options?.body);
-    if (path === '/api/timer/stop') return handleTimerStop();
+    if (path === '/api/timer/start') return withTimerEvent(handleTimerStart(options?.body));
+    if (path === '/api/timer/stop') return withTimerEvent(handleTimerStop(options?.body));
+    if (path === '/api/entries') return withEntriesEvent(handleCreateEntry(options?.body));
 
     const resumeMatch = path.match(/^\/api\/timer\/resume\/(.+)$/);
-    if (resumeMatch) return handleTimerResume(resumeMatch[1]);
+    if (resumeMatch) return withTimerEvent(handleTimerResume(resumeMatch[1], options?.body));
   }
 
   // PATCH routes
   if (method === 'PATCH') {
     const entryMatch = path.match(/^\/api\/entries\/(.+)$/);
-    if (entryMatch) return handlePatchEntry(entryMatch[1], options?.body);
+    if (entryMatch) {
+      const result = withEntriesEvent(handlePatchEntry(entryMatch[1], options?.body));
+      // Editing the running entry changes the timer every client shows
+      return entryMatch[1] === runningEntryId ? withTimerEvent(result) : result;
+    }
   }
 
   return { error: `Demo: unhandled ${method} ${path}`, status: 404 };
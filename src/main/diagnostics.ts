@@ -0,0 +1,128 @@
+import { app, dialog, screen, type BrowserWindow } from 'electron';
+import { basename, join } from 'path';
+import { readFileSync, writeFileSync } from 'fs';
+import { release, type as osType } from 'os';
+import { getConfig } from './config';
+import { createLogger, getLogFiles } from './logger';
+import { getActiveEnvironment, isDemoMode } from './api';
+import { getRecentApiErrors } from './api-client';
+import { getAuthState } from './auth';
+import { findEnvironment } from './environments';
+import { getConnectivity } from './connectivity';
+import { getSyncStatus } from './mutation-queue';
+import { getUpdateStatus } from './updater';
+import { createZip, type ZipEntry } from './zip';
+
+const log = createLogger('diagnostics');
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface DiagnosticsResult {
+  success: boolean;
+  path?: string;
+  canceled?: boolean;
+  error?: string;
+}
+
+const REDACTED = '[redacted]';
+
+// ============================================================
+// Contents — everything support needs, nothing that signs anyone in
+// ============================================================
+
+/** config.json as loaded, minus token sets, the local API token and hook targets (may embed secrets). */
+function redactedConfig(): Record<string, unknown> {
+  const config = getConfig();
+  return {
+    ...config,
+    auth: Object.fromEntries(Object.keys(config.auth).map((envId) => [envId, REDACTED])),
+    localApi: config.localApi?.token ? { ...config.localApi, token: REDACTED } : config.localApi,
+    hooks: config.hooks.map((hook) => ({ ...hook, target: REDACTED })),
+  };
+}
+
+function systemInfo(): Record<string, unknown> {
+  const envId = getActiveEnvironment();
+  const env = findEnvironment(envId);
+  const primaryId = screen.getPrimaryDisplay().id;
+  return {
+    createdAt: new Date().toISOString(),
+    app: { version: app.getVersion(), packaged: app.isPackaged, locale: app.getLocale() },
+    versions: {
+      electron: process.versions.electron,
+      chrome: process.versions.chrome,
+      node: process.versions.node,
+    },
+    os: { type: osType(), platform: process.platform, release: release(), arch: process.arch },
+    displays: screen.getAllDisplays().map((display) => ({
+      id: display.id,
+      primary: display.id === primaryId,
+      bounds: display.bounds,
+      workArea: display.workArea,
+      scaleFactor: display.scaleFactor,
+      rotation: display.rotation,
+    })),
+    environment: {
+      id: envId,
+      label: env?.label ?? null,
+      apiBaseUrl: env?.apiBaseUrl ?? null,
+      demo: isDemoMode(),
+      signedIn: getAuthState(envId).isAuthenticated,
+    },
+    connectivity: getConnectivity(),
+    sync: getSyncStatus(),
+    update: getUpdateStatus(),
+  };
+}
+
+function collectEntries(): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  for (const path of getLogFiles()) {
+    try {
+      entries.push({ name: `logs/${basename(path)}`, data: readFileSync(path) });
+    } catch (err) {
+      log.warn(`Could not read ${path}:`, err);
+    }
+  }
+  entries.push(
+    { name: 'config.json', data: JSON.stringify(redactedConfig(), null, 2) },
+    { name: 'system.json', data: JSON.stringify(systemInfo(), null, 2) },
+    { name: 'api-errors.json', data: JSON.stringify(getRecentApiErrors(), null, 2) },
+  );
+  return entries;
+}
+
+// ============================================================
+// Export — the user picks where the archive goes
+// ============================================================
+
+function defaultFilename(): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `ternity-diagnostics-${stamp}.zip`;
+}
+
+export async function createDiagnosticsBundle(
+  parent?: BrowserWindow | null,
+): Promise<DiagnosticsResult> {
+  const options = {
+    title: 'Save Diagnostics',
+    defaultPath: join(app.getPath('downloads'), defaultFilename()),
+    filters: [{ name: 'Zip archive', extensions: ['zip'] }],
+  };
+  const { canceled, filePath } = parent
+    ? await dialog.showSaveDialog(parent, options)
+    : await dialog.showSaveDialog(options);
+  if (canceled || !filePath) return { success: false, canceled: true };
+
+  try {
+    // Logged first, so the bundle's own app.log records when it was made
+    log.info('Creating diagnostics bundle at', filePath);
+    writeFileSync(filePath, createZip(collectEntries()));
+    return { success: true, path: filePath };
+  } catch (err) {
+    log.error('Failed to create diagnostics bundle:', err);
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
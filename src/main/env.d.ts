@@ -0,0 +1,8 @@
+/// <reference types="electron-vite/node" />
+
+interface ImportMetaEnv {
+  /** Release builds bake in the update feed; settings can override it (see updater.ts). */
+  readonly MAIN_VITE_UPDATE_FEED_URL?: string;
+  /** Base64 DER (SPKI) ed25519 key that update manifests must be signed with. */
+  readonly MAIN_VITE_UPDATE_PUBLIC_KEY?: string;
+}
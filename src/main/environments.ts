@@ -1,4 +1,9 @@
-export type EnvironmentId = 'local' | 'dev' | 'prod';
+import { getConfig } from './config';
+
+export type BuiltInEnvironmentId = 'local' | 'dev' | 'prod';
+
+/** A built-in id, or the slug of a user-defined environment (see custom-environments.ts). */
+export type EnvironmentId = string;
 
 export interface EnvironmentConfig {
   id: EnvironmentId;
@@ -7,9 +12,10 @@ export interface EnvironmentConfig {
   webAppUrl: string;
   logtoEndpoint: string;
   logtoAppId: string;
+  custom?: boolean;
 }
 
-export const ENVIRONMENTS: Record<EnvironmentId, EnvironmentConfig> = {
+export const BUILT_IN_ENVIRONMENTS: Record<BuiltInEnvironmentId, EnvironmentConfig> = {
   local: {
     id: 'local',
     label: 'Local',
@@ -36,6 +42,24 @@ export const ENVIRONMENTS: Record<EnvironmentId, EnvironmentConfig> = {
   },
 };
 
+export const DEFAULT_ENVIRONMENT: BuiltInEnvironmentId = 'prod';
+
+/** Built-ins first, then user-defined environments from config.json in the order they were added. */
+export function listEnvironments(): EnvironmentConfig[] {
+  return [...Object.values(BUILT_IN_ENVIRONMENTS), ...getConfig().customEnvironments];
+}
+
+export function findEnvironment(envId: EnvironmentId): EnvironmentConfig | null {
+  return listEnvironments().find((env) => env.id === envId) ?? null;
+}
+
+/** Like `findEnvironment`, for callers that can't proceed without one — throws for unknown ids. */
+export function getEnvironment(envId: EnvironmentId): EnvironmentConfig {
+  const env = findEnvironment(envId);
+  if (!env) throw new Error(`Unknown environment: ${envId}`);
+  return env;
+}
+
 export const LOGTO_REDIRECT_URI = 'http://127.0.0.1:21987/callback';
 
 export const LOGTO_SCOPES = [
@@ -0,0 +1,339 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+import { onApiResponse } from './api';
+import { isLocalEntryId } from './mutation-queue';
+import {
+  getTimerState,
+  onTimerStateChange,
+  getElapsedSeconds,
+  type TimerSnapshot,
+} from './timer-state';
+import type { Entry } from './api-types';
+
+const log = createLogger('hooks');
+
+// ============================================================
+// Types
+// ============================================================
+
+export type HookEvent = 'timer-started' | 'timer-stopped' | 'entry-updated' | 'project-switched';
+
+/** `command` runs in the user's shell with the payload on stdin; `webhook` POSTs it as JSON. */
+export type HookKind = 'command' | 'webhook';
+
+export interface HookConfig {
+  id: string;
+  kind: HookKind;
+  target: string; // shell command or http(s) URL on this machine
+  events: HookEvent[];
+}
+
+export type HookInput = Omit<HookConfig, 'id'>;
+
+export interface AddHookResult {
+  success: boolean;
+  hook?: HookConfig;
+  error?: string;
+}
+
+export interface HookRunResult {
+  ok: boolean;
+  durationMs: number;
+  detail: string; // exit code / HTTP status, or the error
+}
+
+interface HookEntry {
+  id: string;
+  description: string;
+  projectId: string | null;
+  project: string | null;
+  client: string | null;
+  durationSeconds: number;
+  running: boolean;
+}
+
+interface HookPayload {
+  event: HookEvent;
+  at: string;
+  entry: HookEntry;
+  previousProject?: { id: string | null; name: string | null }; // project-switched only
+  test?: true;
+}
+
+const HOOK_EVENTS: HookEvent[] = [
+  'timer-started',
+  'timer-stopped',
+  'entry-updated',
+  'project-switched',
+];
+
+const HOOK_TIMEOUT_MS = 10_000;
+const MAX_OUTPUT_CHARS = 2000;
+
+// ============================================================
+// Add / remove — persisted as `hooks` in config.json
+// ============================================================
+
+export function listHooks(): HookConfig[] {
+  return getConfig().hooks;
+}
+
+/** Webhooks carry entry descriptions and project names, so they only go to this machine. */
+function isLoopbackUrl(target: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+  return (
+    url.hostname === 'localhost' ||
+    url.hostname === '[::1]' ||
+    /^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(url.hostname)
+  );
+}
+
+export function addHook(input: HookInput): AddHookResult {
+  const target = input.target.trim();
+  if (!target) return { success: false, error: 'Command or URL is required' };
+  if (input.kind === 'webhook' && !isLoopbackUrl(target)) {
+    return { success: false, error: 'Webhook must be an http(s) URL on localhost' };
+  }
+  const events = HOOK_EVENTS.filter((event) => input.events.includes(event));
+  if (events.length === 0) return { success: false, error: 'Pick at least one event' };
+
+  const hook: HookConfig = { id: randomUUID(), kind: input.kind, target, events };
+  setConfig({ hooks: [...listHooks(), hook] });
+  log.info(`Added ${hook.kind} hook ${hook.id} for ${events.join(', ')}`);
+  return { success: true, hook };
+}
+
+export function removeHook(id: string): boolean {
+  const hooks = listHooks();
+  const remaining = hooks.filter((hook) => hook.id !== id);
+  if (remaining.length === hooks.length) return false;
+  setConfig({ hooks: remaining });
+  log.info('Removed hook', id);
+  return true;
+}
+
+// ============================================================
+// Execution — every run is logged; a hook never blocks the timer
+// ============================================================
+
+function truncate(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_OUTPUT_CHARS ? `${trimmed.slice(0, MAX_OUTPUT_CHARS)}…` : trimmed;
+}
+
+/** Kill the shell and everything it started — killing just the shell leaves its children running. */
+function killTree(child: ChildProcess): void {
+  if (child.pid === undefined) return;
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true });
+    } else {
+      process.kill(-child.pid, 'SIGKILL'); // the group created by `detached`
+    }
+  } catch (err) {
+    log.warn(`Could not kill hook process ${child.pid}:`, err);
+    child.kill('SIGKILL');
+  }
+}
+
+function runCommand(hook: HookConfig, payload: HookPayload): Promise<HookRunResult> {
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    const child = spawn(hook.target, {
+      shell: true,
+      env: { ...process.env, TERNITY_EVENT: payload.event },
+      windowsHide: true,
+      detached: process.platform !== 'win32', // own process group, so a timeout can kill it whole
+    });
+    let stderr = '';
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killTree(child);
+    }, HOOK_TIMEOUT_MS);
+
+    child.stdout.resume(); // output is ignored, but must be drained
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => {
+      if (stderr.length < MAX_OUTPUT_CHARS) stderr += chunk;
+    });
+    child.stdin.on('error', () => {}); // the command may exit without reading stdin
+    child.stdin.end(JSON.stringify(payload));
+
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      resolve({ ok: false, durationMs: Date.now() - startedAt, detail: err.message });
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      const durationMs = Date.now() - startedAt;
+      if (timedOut) {
+        resolve({ ok: false, durationMs, detail: `Timed out after ${HOOK_TIMEOUT_MS / 1000}s` });
+      } else if (code === 0) {
+        resolve({ ok: true, durationMs, detail: 'Exit code 0' });
+      } else {
+        const reason = code === null ? `Killed by ${signal}` : `Exit code ${code}`;
+        resolve({
+          ok: false,
+          durationMs,
+          detail: [reason, truncate(stderr)].filter(Boolean).join(': '),
+        });
+      }
+    });
+  });
+}
+
+async function runWebhook(hook: HookConfig, payload: HookPayload): Promise<HookRunResult> {
+  const startedAt = Date.now();
+  // Hooks added before the localhost rule, or edited into config.json by hand
+  if (!isLoopbackUrl(hook.target)) {
+    return { ok: false, durationMs: 0, detail: 'Webhook URL is not on localhost' };
+  }
+  try {
+    const res = await fetch(hook.target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Ternity-Event': payload.event },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(HOOK_TIMEOUT_MS),
+    });
+    return { ok: res.ok, durationMs: Date.now() - startedAt, detail: `HTTP ${res.status}` };
+  } catch (err) {
+    const detail =
+      err instanceof Error && err.name === 'TimeoutError'
+        ? `Timed out after ${HOOK_TIMEOUT_MS / 1000}s`
+        : err instanceof Error
+          ? err.message
+          : 'Request failed';
+    return { ok: false, durationMs: Date.now() - startedAt, detail };
+  }
+}
+
+async function runHook(hook: HookConfig, payload: HookPayload): Promise<HookRunResult> {
+  const result =
+    hook.kind === 'command' ? await runCommand(hook, payload) : await runWebhook(hook, payload);
+  const line = `${hook.kind} hook ${hook.id} on ${payload.event}: ${result.detail} (${result.durationMs}ms)`;
+  if (result.ok) log.info(line);
+  else log.warn(line);
+  return result;
+}
+
+// Runs of one hook are chained, so a slow `timer-started` can't land after the `timer-stopped`
+const chains = new Map<string, Promise<unknown>>();
+
+function dispatch(payload: HookPayload): void {
+  for (const hook of listHooks()) {
+    if (!hook.events.includes(payload.event)) continue;
+    const previous = chains.get(hook.id) ?? Promise.resolve();
+    const next = previous.then(() => runHook(hook, payload));
+    chains.set(hook.id, next);
+    next.finally(() => {
+      if (chains.get(hook.id) === next) chains.delete(hook.id);
+    });
+  }
+}
+
+function toHookEntry(entry: Entry, running: boolean): HookEntry {
+  return {
+    id: entry.id,
+    description: entry.description,
+    projectId: entry.projectId,
+    project: entry.projectName,
+    client: entry.clientName,
+    durationSeconds: getElapsedSeconds(entry),
+    running,
+  };
+}
+
+function emit(event: HookEvent, entry: Entry, running: boolean, previous?: Entry): void {
+  const payload: HookPayload = {
+    event,
+    at: new Date().toISOString(),
+    entry: toHookEntry(entry, running),
+  };
+  if (previous) payload.previousProject = { id: previous.projectId, name: previous.projectName };
+  log.debug(`Event ${event} for ${entry.id}`);
+  dispatch(payload);
+}
+
+/** Fire the hook's first event with the running entry (or a sample) — for the settings button. */
+export async function testHook(id: string): Promise<HookRunResult> {
+  const hook = listHooks().find((h) => h.id === id);
+  if (!hook) return { ok: false, durationMs: 0, detail: 'Hook not found' };
+  const { running, entry } = getTimerState();
+  const sample: HookEntry = {
+    id: 'test',
+    description: 'Test entry',
+    projectId: null,
+    project: null,
+    client: null,
+    durationSeconds: 0,
+    running: false,
+  };
+  return runHook(hook, {
+    event: hook.events[0],
+    at: new Date().toISOString(),
+    entry: entry ? toHookEntry(entry, running) : sample,
+    test: true,
+  });
+}
+
+// ============================================================
+// Triggers — transitions of the timer model, plus entry edits through the API proxy
+// ============================================================
+
+let lastSnapshot: TimerSnapshot | null = null;
+
+function handleTimerChange(next: TimerSnapshot): void {
+  const prev = lastSnapshot;
+  lastSnapshot = next;
+  // Hydrated from cache or reset on sign-out / account switch — not something the user just did
+  if (!prev || prev.updatedAt === 0 || next.updatedAt === 0) return;
+
+  const before = prev.running ? prev.entry : null;
+  const after = next.running ? next.entry : null;
+  if (!before && !after) return;
+
+  // Same timer: either unchanged, or an offline start whose replay swapped in the server id
+  const sameTimer = before && after && (before.id === after.id || isLocalEntryId(before.id));
+  if (!sameTimer) {
+    if (before) emit('timer-stopped', before, false);
+    if (after) emit('timer-started', after, true);
+  }
+  if (before && after && before.projectId !== after.projectId) {
+    emit('project-switched', after, true, before);
+  }
+}
+
+function handleApiResponse(method: string, path: string, data: unknown): void {
+  if (method !== 'PATCH' || !/^\/api\/entries\/[^/?]+$/.test(path.split('?')[0])) return;
+  if (!data || typeof data !== 'object' || !('id' in data)) return;
+  const entry = data as Entry;
+  emit('entry-updated', entry, entry.isRunning);
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+let unsubscribers: (() => void)[] = [];
+
+export function initHooks(): void {
+  lastSnapshot = getTimerState();
+  unsubscribers = [onTimerStateChange(handleTimerChange), onApiResponse(handleApiResponse)];
+  const count = listHooks().length;
+  if (count > 0) log.info(`${count} hook(s) configured`);
+}
+
+export function disposeHooks(): void {
+  for (const unsubscribe of unsubscribers) unsubscribe();
+  unsubscribers = [];
+  lastSnapshot = null;
+}
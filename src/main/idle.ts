@@ -0,0 +1,129 @@
+import { powerMonitor } from 'electron';
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+import { getTimerState } from './timer-state';
+
+const log = createLogger('idle');
+
+// ============================================================
+// Types
+// ============================================================
+
+export type IdleReason = 'idle' | 'suspend' | 'lock' | 'shutdown';
+
+/** A stretch of time away while a timer was running, awaiting keep/discard/split. */
+export interface IdlePeriod {
+  entryId: string;
+  reason: IdleReason;
+  startedAt: string; // ISO — last input / sleep / lock / quit
+  endedAt: string; // ISO — first input / wake / unlock / relaunch
+}
+
+// ============================================================
+// Threshold — `idleThresholdMinutes` in config.json (0 disables detection)
+// ============================================================
+
+const DEFAULT_IDLE_THRESHOLD_MINUTES = 10;
+const CHECK_INTERVAL_MS = 15_000;
+
+export function getIdleThreshold(): number {
+  const value = getConfig().idleThresholdMinutes;
+  return value !== null && value >= 0 ? value : DEFAULT_IDLE_THRESHOLD_MINUTES;
+}
+
+export function setIdleThreshold(minutes: number): void {
+  const idleThresholdMinutes = Math.max(0, Math.round(minutes));
+  setConfig({ idleThresholdMinutes });
+  log.info('Idle threshold set to', idleThresholdMinutes, 'min');
+}
+
+// ============================================================
+// Monitor — polls system idle time while a timer is running
+// ============================================================
+
+let checkTimer: ReturnType<typeof setInterval> | null = null;
+let idleSince: number | null = null; // ms timestamp of the last input, once past the threshold
+let idleEntryId: string | null = null;
+let pending: IdlePeriod | null = null;
+let onReturn: ((period: IdlePeriod) => void) | null = null;
+
+function check(): void {
+  const timer = getTimerState();
+  const threshold = getIdleThreshold() * 60;
+
+  if (!timer.running || !timer.entry || threshold === 0) {
+    idleSince = null;
+    idleEntryId = null;
+    return;
+  }
+  if (pending) return; // one question at a time — the popup is still asking
+
+  const idleSeconds = powerMonitor.getSystemIdleTime();
+  const lastInputAt = Date.now() - idleSeconds * 1000;
+
+  if (idleSince == null) {
+    if (idleSeconds >= threshold) {
+      idleSince = lastInputAt;
+      idleEntryId = timer.entry.id;
+      log.info(`Idle for ${Math.round(idleSeconds / 60)}m while timer running`);
+    }
+    return;
+  }
+
+  // Still away — keep waiting for input
+  if (lastInputAt <= idleSince + 1000) return;
+
+  // Timer switched to another entry while idle (another device) — nothing to resolve
+  if (idleEntryId !== timer.entry.id) {
+    idleSince = null;
+    idleEntryId = null;
+    return;
+  }
+
+  reportAwayPeriod({
+    entryId: idleEntryId,
+    reason: 'idle',
+    startedAt: new Date(idleSince).toISOString(),
+    endedAt: new Date(lastInputAt).toISOString(),
+  });
+}
+
+export function initIdleMonitor(handler: (period: IdlePeriod) => void): void {
+  onReturn = handler;
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = setInterval(check, CHECK_INTERVAL_MS);
+}
+
+/**
+ * Queue a period for the popup to ask about — idle detection and power events
+ * (sleep, lock, quit) share the prompt. An idle stretch already under way for the
+ * same entry is folded in, so sleeping after going idle asks once, from the last input.
+ */
+export function reportAwayPeriod(period: IdlePeriod): void {
+  if (idleSince != null && idleEntryId === period.entryId && idleSince < Date.parse(period.startedAt)) {
+    period = { ...period, startedAt: new Date(idleSince).toISOString() };
+  }
+  idleSince = null;
+  idleEntryId = null;
+  pending = period;
+  log.info('Away period to resolve', pending);
+  onReturn?.(pending);
+}
+
+/** The idle period the popup still has to ask about, if any. */
+export function getPendingIdle(): IdlePeriod | null {
+  return pending;
+}
+
+export function clearPendingIdle(): void {
+  pending = null;
+}
+
+export function disposeIdleMonitor(): void {
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = null;
+  idleSince = null;
+  idleEntryId = null;
+  pending = null;
+  onReturn = null;
+}
@@ -4,7 +4,6 @@ import {
   Tray,
   Menu,
   screen,
-  nativeImage,
   nativeTheme,
   ipcMain,
   shell,
@@ -12,7 +11,7 @@ import {
 } from 'electron';
 import { join } from 'path';
 import { is } from '@electron-toolkit/utils';
-import { readConfig, writeConfig } from './config';
+import { getConfig, setConfig, onConfigChange, type AppConfig, type ConfigKey } from './config';
 import { createLogger, getLogPath } from './logger';
 import {
   signIn,
@@ -21,17 +20,149 @@ import {
   getAuthState,
   getAccessToken,
   abortSignIn,
+  listAccounts,
 } from './auth';
-import { ENVIRONMENTS, type EnvironmentId } from './environments';
-import { initDemo, resetDemo, handleDemoRequest } from './demo/mock-server';
+import {
+  DEFAULT_ENVIRONMENT,
+  findEnvironment,
+  listEnvironments,
+  type EnvironmentId,
+} from './environments';
+import {
+  addCustomEnvironment,
+  removeCustomEnvironment,
+  type CustomEnvironmentInput,
+} from './custom-environments';
+import { initDemo, resetDemo } from './demo/mock-server';
+import {
+  apiFetch,
+  getActiveEnvironment,
+  isDemoMode,
+  setDemoMode,
+  type ApiResult,
+} from './api';
+import {
+  initConnectivityMonitor,
+  getConnectivity,
+  isOnline,
+  onConnectivityChange,
+  checkConnectivity,
+  disposeConnectivityMonitor,
+} from './connectivity';
+import {
+  getTimerState,
+  onTimerStateChange,
+  resetTimerState,
+  getElapsedSeconds,
+  formatDuration,
+  getDistinctRecentEntries,
+} from './timer-state';
+import { startTimer, stopTimer, resumeTimer, refreshTimer, refreshEntries } from './timer-actions';
+import { createTrayIcon, clearTrayIconCache, type TrayIconState } from './tray-icon';
+import {
+  initShortcuts,
+  getShortcuts,
+  setShortcut,
+  suspendShortcuts,
+  disposeShortcuts,
+  type ShortcutAction,
+} from './shortcuts';
+import {
+  initIdleMonitor,
+  getPendingIdle,
+  clearPendingIdle,
+  getIdleThreshold,
+  setIdleThreshold,
+  disposeIdleMonitor,
+  type IdlePeriod,
+} from './idle';
+import {
+  initPowerMonitor,
+  getPowerPolicies,
+  setPowerPolicy,
+  disposePowerMonitor,
+  type PowerEvent,
+  type PowerPolicy,
+} from './power';
+import {
+  initLongTimerMonitor,
+  getLongTimerSettings,
+  setLongTimerSettings,
+  disposeLongTimerMonitor,
+  type LongTimerSettings,
+} from './long-timer';
+import {
+  initHooks,
+  disposeHooks,
+  listHooks,
+  addHook,
+  removeHook,
+  testHook,
+  type HookInput,
+} from './hooks';
+import {
+  initUpdater,
+  disposeUpdater,
+  getUpdateStatus,
+  getUpdateSettings,
+  setUpdateSettings,
+  checkForUpdates,
+  installUpdate,
+  onUpdateStatusChange,
+  type UpdateSettings,
+  type UpdateStatus,
+} from './updater';
+import { createDiagnosticsBundle } from './diagnostics';
+import {
+  initLogSettings,
+  disposeLogSettings,
+  applyLogFlags,
+  getLoggingState,
+  setLoggingSettings,
+  type LoggingSettings,
+} from './log-settings';
+import {
+  initNotifications,
+  getNotificationSettings,
+  setNotificationSettings,
+  snoozeNotifications,
+  disposeNotifications,
+  type NotificationAction,
+  type NotificationSettings,
+} from './notifications';
+import {
+  initMutationQueue,
+  getSyncStatus,
+  fetchOrQueue,
+  disposeMutationQueue,
+  resumeParkedMutations,
+  replayQueue,
+} from './mutation-queue';
+import { initPush, isPushConnected, restartPush, disposePush } from './push';
+import { initCache, getCachedData, hydrateFromCache, clearCache, disposeCache } from './cache';
+import {
+  initDeepLinks,
+  handleDeepLink,
+  findDeepLink,
+  disposeDeepLinks,
+  type DeepLinkHandlers,
+} from './deep-links';
+import { initControlServer, disposeControlServer, type ControlHandlers } from './control-server';
+import {
+  initLocalApi,
+  disposeLocalApi,
+  getLocalApiStatus,
+  setLocalApiSettings,
+  regenerateLocalApiToken,
+  type LocalApiSettings,
+} from './local-api';
+import type { Entry } from './api-types';
 
 const log = createLogger('app');
-const apiLog = createLogger('api');
 const isLinux = process.platform === 'linux';
 
 let tray: Tray | null = null;
 let popup: BrowserWindow | null = null;
-let isDemoMode = false;
 let stayOnTop = false;
 
 // Remembered window position (cross-platform; also serves as Linux fallback since tray.getBounds() returns zeros)
@@ -40,6 +171,9 @@ let savedPosition: { x: number; y: number } | null = null;
 // Linux: suppress blur briefly after tray click (GNOME fires blur immediately after show)
 let blurSuppressedUntil = 0;
 
+// A native dialog (e.g. Save Diagnostics) takes focus — the popup must not hide underneath it
+let nativeDialogOpen = false;
+
 // Guard: on Windows, resize event fires synchronously during setSize — skip width enforcement
 let programmaticResize = false;
 
@@ -50,18 +184,15 @@ let programmaticResize = false;
 let spaceChangedAt = 0;
 
 function loadSavedPosition(): void {
-  const config = readConfig();
-  if (config.windowX != null && config.windowY != null) {
-    savedPosition = { x: config.windowX as number, y: config.windowY as number };
+  const { windowX, windowY } = getConfig();
+  if (windowX !== null && windowY !== null) {
+    savedPosition = { x: windowX, y: windowY };
   }
 }
 
 function savePosition(x: number, y: number): void {
   savedPosition = { x, y };
-  const config = readConfig();
-  config.windowX = x;
-  config.windowY = y;
-  writeConfig(config);
+  setConfig({ windowX: x, windowY: y });
 }
 
 const DEFAULT_POPUP_HEIGHT = 730;
@@ -69,9 +200,8 @@ const MIN_POPUP_HEIGHT = 400;
 const MAX_POPUP_HEIGHT = 1200;
 
 function loadSavedHeight(): number {
-  const config = readConfig();
-  const h = config.windowHeight as number | undefined;
-  if (h != null && h >= MIN_POPUP_HEIGHT && h <= MAX_POPUP_HEIGHT) return h;
+  const h = getConfig().windowHeight;
+  if (h !== null && h >= MIN_POPUP_HEIGHT && h <= MAX_POPUP_HEIGHT) return h;
   return DEFAULT_POPUP_HEIGHT;
 }
 
@@ -125,6 +255,12 @@ function createPopup(): BrowserWindow {
     });
   }
 
+  // Tell the renderer when it's on screen — it only polls while visible
+  win.on('show', () => win.webContents.send('popup:visibility', true));
+  win.on('hide', () => {
+    if (!win.isDestroyed()) win.webContents.send('popup:visibility', false);
+  });
+
   // Blur handling — platform-specific
   let blurTimer: ReturnType<typeof setTimeout> | null = null;
 
@@ -141,6 +277,7 @@ function createPopup(): BrowserWindow {
 
   win.on('blur', () => {
     if (Date.now() < blurSuppressedUntil) return;
+    if (nativeDialogOpen) return;
     if (isDragging) return;
     if (stayOnTop) return;
     if (blurTimer) clearTimeout(blurTimer);
@@ -205,9 +342,7 @@ function createPopup(): BrowserWindow {
     popupHeight = h;
     if (heightSaveTimer) clearTimeout(heightSaveTimer);
     heightSaveTimer = setTimeout(() => {
-      const config = readConfig();
-      config.windowHeight = h;
-      writeConfig(config);
+      setConfig({ windowHeight: h });
       log.debug('Window height saved', h);
     }, 500);
   });
@@ -297,76 +432,545 @@ function togglePopup(): void {
   }
 }
 
-function getTrayIconName(): string {
-  if (process.platform === 'darwin') return 'trayTemplate.png';
-  if (process.platform === 'win32') {
-    // Windows: detect taskbar theme and use appropriate icon
-    return nativeTheme.shouldUseDarkColors ? 'trayLight.png' : 'trayDark.png';
+// ============================================================
+// Tray status — live readout of the running timer (tooltip + menu bar title)
+// ============================================================
+
+const TIMER_REFRESH_INTERVAL_MS = 60_000;
+const MAX_WINDOWS_TOOLTIP_LENGTH = 127;
+
+let trayTickTimer: ReturnType<typeof setTimeout> | null = null;
+let trayIconState: TrayIconState | null = null;
+
+function isSignedIn(): boolean {
+  return isDemoMode() || getAuthState(getActiveEnvironment()).isAuthenticated;
+}
+
+// Priority: signed out > offline > running > idle
+function getTrayIconState(): TrayIconState {
+  if (!isSignedIn()) return 'signed-out';
+  if (!isOnline()) return 'offline';
+  return getTimerState().running ? 'running' : 'idle';
+}
+
+function updateTrayIcon(force = false): TrayIconState {
+  const next = getTrayIconState();
+  if (tray && (force || next !== trayIconState)) {
+    tray.setImage(createTrayIcon(next));
+    log.debug('Tray icon state', next);
   }
-  // Linux: GNOME/KDE panels are dark across all major distros
-  return 'trayLight.png';
+  trayIconState = next;
+  return next;
 }
 
-function createTray(): void {
-  const resourceDir = app.isPackaged ? process.resourcesPath : join(__dirname, '../../resources');
-  const trayIconPath = join(resourceDir, getTrayIconName());
+function formatTrayTitle(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return `${h}:${String(m).padStart(2, '0')}`;
+}
 
-  const trayImage = nativeImage.createFromPath(trayIconPath);
-  if (process.platform === 'darwin') trayImage.setTemplateImage(true);
+// The tooltip doubles as the accessible label — screen readers announce it for tray items
+function setTrayText(tooltip: string, title: string): void {
+  if (!tray) return;
+  if (process.platform === 'win32' && tooltip.length > MAX_WINDOWS_TOOLTIP_LENGTH) {
+    tooltip = `${tooltip.slice(0, MAX_WINDOWS_TOOLTIP_LENGTH - 1)}…`;
+  }
+  tray.setToolTip(tooltip);
+  // macOS menu bar title / Linux AppIndicator label; unsupported on Windows
+  if (process.platform !== 'win32') tray.setTitle(title, { fontType: 'monospacedDigit' });
+}
 
-  tray = new Tray(trayImage);
-  tray.setToolTip('Ternity');
+function updateTrayStatus(): void {
+  renderTrayStatus();
+  refreshLinuxTrayMenu();
+}
 
-  tray.on('click', togglePopup);
-  tray.on('double-click', togglePopup);
+function renderTrayStatus(): void {
+  if (trayTickTimer) {
+    clearTimeout(trayTickTimer);
+    trayTickTimer = null;
+  }
+  if (!tray) return;
+
+  const iconState = updateTrayIcon();
+  if (iconState === 'signed-out') {
+    setTrayText('Ternity — Signed out', '');
+    return;
+  }
+
+  const { running, entry, todaySeconds } = getTimerState();
+  const offlineNote = iconState === 'offline' ? 'Offline — showing last known state' : null;
+  if (!running || !entry) {
+    const lines = ['Ternity — No timer'];
+    if (todaySeconds) lines.push(`Today: ${formatDuration(todaySeconds)}`);
+    if (offlineNote) lines.push(offlineNote);
+    setTrayText(lines.join('\n'), '');
+    return;
+  }
+
+  const now = Date.now();
+  const elapsed = getElapsedSeconds(entry, now);
+  const lines = [`Ternity — Running: ${formatDuration(elapsed)}`, entry.description || 'No description'];
+  const project = [entry.clientName, entry.projectName].filter(Boolean).join(' · ');
+  if (project) lines.push(project);
+  if (offlineNote) lines.push(offlineNote);
+  setTrayText(lines.join('\n'), formatTrayTitle(elapsed));
+
+  // Re-render right after the elapsed minute rolls over
+  const msUntilNextMinute = 60_000 - ((elapsed * 1000) % 60_000);
+  trayTickTimer = setTimeout(updateTrayStatus, msUntilNextMinute + 100);
+}
+
+function refreshTimerStateIfStale(): void {
+  // Tokens can be cleared behind our back (refresh failures) — re-check auth for the icon
+  updateTrayIcon();
+  if (Date.now() - getTimerState().updatedAt < TIMER_REFRESH_INTERVAL_MS) return;
+  refreshTimer().catch((err) => log.warn('Timer refresh failed:', err));
+}
+
+/** Point the app at another environment — the renderer follows via `config:changed`. */
+function switchEnvironment(envId: EnvironmentId): void {
+  log.info('Environment switched to', envId);
+  setConfig({ environment: envId });
+  resetTimerState();
+  hydrateFromCache();
+  checkConnectivity();
+  refreshTimerStateIfStale();
+  restartPush();
+}
+
+// ============================================================
+// Tray menu — rebuilt on every open from the main-process timer model
+// ============================================================
+
+const MENU_RECENT_ENTRIES = 5;
+const MENU_LABEL_MAX_LENGTH = 40;
+const MENU_DATA_STALE_MS = 5 * 60_000;
+
+function menuLabel(text: string): string {
+  const trimmed =
+    text.length > MENU_LABEL_MAX_LENGTH ? `${text.slice(0, MENU_LABEL_MAX_LENGTH - 1)}…` : text;
+  // Windows/Linux treat a single & as a mnemonic marker
+  return process.platform === 'darwin' ? trimmed : trimmed.replace(/&/g, '&&');
+}
+
+function describeEntry(entry: { description: string; projectName: string | null }): string {
+  const description = entry.description || 'No description';
+  return entry.projectName ? `${description} · ${entry.projectName}` : description;
+}
+
+/** Fetch entries/projects for the menu when missing or stale — used on the next open. */
+function refreshMenuDataIfStale(): void {
+  const envId = getActiveEnvironment();
+  if (!isDemoMode() && !getAuthState(envId).isAuthenticated) return;
+  const { entriesUpdatedAt, projects } = getTimerState();
+  if (Date.now() - entriesUpdatedAt < MENU_DATA_STALE_MS) return;
+  const requests: Promise<unknown>[] = [refreshEntries()];
+  if (projects.length === 0) requests.push(apiFetch(envId, '/api/projects'));
+  Promise.all(requests).catch((err) => log.warn('Tray menu refresh failed:', err));
+}
 
-  const contextMenu = Menu.buildFromTemplate([
+function getDefaultProjectId(): string | null {
+  return getConfig().defaultProjectId;
+}
+
+function runTimerAction(action: () => Promise<unknown>): void {
+  action().catch((err) => log.error('Tray timer action failed:', err));
+}
+
+function buildTimerMenuItems(): Electron.MenuItemConstructorOptions[] {
+  if (trayIconState === 'signed-out') {
+    return [{ label: 'Signed out', enabled: false }];
+  }
+
+  const { running, entry, todaySeconds, projects } = getTimerState();
+  const items: Electron.MenuItemConstructorOptions[] = [];
+
+  if (running && entry) {
+    items.push(
+      {
+        label: menuLabel(`${formatDuration(getElapsedSeconds(entry))} — ${describeEntry(entry)}`),
+        enabled: false,
+      },
+      { label: 'Stop Timer', click: () => runTimerAction(stopTimer) },
+    );
+  } else {
+    items.push({ label: 'No timer running', enabled: false });
+  }
+
+  const defaultProjectId = getDefaultProjectId();
+  const defaultProject = defaultProjectId ? projects.find((p) => p.id === defaultProjectId) : undefined;
+  items.push({
+    label: defaultProject ? menuLabel(`Start New on ${defaultProject.name}`) : 'Start New Timer',
+    click: () => runTimerAction(() => startTimer({ projectId: defaultProject?.id ?? null })),
+  });
+
+  if (todaySeconds != null) {
+    items.push({ label: `Today: ${formatDuration(todaySeconds)}`, enabled: false });
+  }
+
+  const recent = getDistinctRecentEntries(MENU_RECENT_ENTRIES);
+  if (recent.length > 0) {
+    items.push(
+      { type: 'separator' },
+      ...recent.map(
+        (e): Electron.MenuItemConstructorOptions => ({
+          label: menuLabel(`Resume ${describeEntry(e)}`),
+          click: () => runTimerAction(() => resumeTimer(e.id)),
+        }),
+      ),
+    );
+  }
+
+  return items;
+}
+
+function snoozeUntilTomorrow(): number {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  tomorrow.setHours(0, 0, 0, 0);
+  return tomorrow.getTime();
+}
+
+function buildSnoozeMenuItem(): Electron.MenuItemConstructorOptions {
+  const { snoozedUntil } = getNotificationSettings();
+  const snooze = (until: number | null) => {
+    snoozeNotifications(until);
+    refreshLinuxTrayMenu();
+  };
+  if (snoozedUntil) {
+    const time = new Date(snoozedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return { label: `Resume Notifications (snoozed until ${time})`, click: () => snooze(null) };
+  }
+  return {
+    label: 'Snooze Notifications',
+    submenu: [
+      { label: 'For 1 Hour', click: () => snooze(Date.now() + 60 * 60_000) },
+      { label: 'For 4 Hours', click: () => snooze(Date.now() + 4 * 60 * 60_000) },
+      { label: 'Until Tomorrow', click: () => snooze(snoozeUntilTomorrow()) },
+    ],
+  };
+}
+
+// Empty when this build has no update feed or signing key
+function buildUpdateMenuItems(): Electron.MenuItemConstructorOptions[] {
+  const { state, version, progress, installMode } = getUpdateStatus();
+  if (state === 'disabled') return [];
+  if (state === 'ready') {
+    return [
+      {
+        label:
+          installMode === 'open' ? `Install Update ${version}…` : `Restart to Update ${version}`,
+        click: () => installUpdate(),
+      },
+    ];
+  }
+  if (state === 'downloading') {
+    return [{ label: `Downloading Update… ${Math.round((progress ?? 0) * 100)}%`, enabled: false }];
+  }
+  return [
+    {
+      label: state === 'checking' ? 'Checking for Updates…' : 'Check for Updates',
+      enabled: state !== 'checking',
+      click: () => checkForUpdates(),
+    },
+  ];
+}
+
+let lastUpdateState: UpdateStatus['state'] | null = null;
+
+// Linux only shows the menu it was last given — rebuild when the update state moves on,
+// not on every download percent
+function handleUpdateStatusChange({ state }: UpdateStatus): void {
+  if (state !== lastUpdateState) refreshLinuxTrayMenu();
+  lastUpdateState = state;
+}
+
+function buildTrayMenu(): Menu {
+  return Menu.buildFromTemplate([
     { label: 'Ternity Electron', enabled: false },
-    { type: 'separator' as const },
+    { type: 'separator' },
     ...(isLinux
-      ? [
-          { label: 'Open', click: () => showPopup() } as Electron.MenuItemConstructorOptions,
-          { type: 'separator' as const },
-        ]
+      ? [{ label: 'Open', click: () => showPopup() }, { type: 'separator' as const }]
       : []),
+    ...buildTimerMenuItems(),
+    { type: 'separator' },
     {
       label: 'Start at Login',
-      type: 'checkbox' as const,
+      type: 'checkbox',
       checked: app.getLoginItemSettings().openAtLogin,
-      click: (menuItem: Electron.MenuItem) => {
-        app.setLoginItemSettings({ openAtLogin: menuItem.checked });
-      },
+      click: (menuItem) => setOpenAtLogin(menuItem.checked),
     },
     {
       label: 'Keep on Top',
-      type: 'checkbox' as const,
+      type: 'checkbox',
       checked: stayOnTop,
-      click: (menuItem: Electron.MenuItem) => {
-        stayOnTop = menuItem.checked;
-        const config = readConfig();
-        config.stayOnTop = menuItem.checked;
-        writeConfig(config);
-      },
+      click: (menuItem) => setConfig({ stayOnTop: menuItem.checked }),
     },
-    { type: 'separator' as const },
+    buildSnoozeMenuItem(),
+    { type: 'separator' },
+    ...buildUpdateMenuItems(),
     {
       label: 'Quit',
       click: () => app.quit(),
     },
   ]);
+}
+
+// Linux (AppIndicator) has no right-click event — the menu must be attached up front,
+// so it is re-attached whenever the tray status changes.
+function refreshLinuxTrayMenu(): void {
+  if (!isLinux || !tray) return;
+  tray.setContextMenu(buildTrayMenu());
+}
+
+// ============================================================
+// Settings sync — pushed to every window on `config:changed`, whoever made the change
+// (tray menu, settings UI, server preferences sync, notification snooze)
+// ============================================================
+
+/**
+ * Config keys the settings UI shows, plus `openAtLogin`, which lives with the OS rather than in
+ * config.json, and `accounts`, the token-free view of `auth`.
+ */
+type SettingKey = ConfigKey | 'openAtLogin' | 'accounts';
+
+// Tokens, window geometry and bookkeeping stay in the main process
+const PRIVATE_CONFIG_KEYS: ConfigKey[] = [
+  'version',
+  'auth',
+  'windowX',
+  'windowY',
+  'windowHeight',
+  'pendingShutdown',
+];
+
+function broadcastSettingsChanged(keys: SettingKey[]): void {
+  if (keys.length === 0) return;
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send('config:changed', keys);
+  }
+}
 
-  if (isLinux) {
-    tray.setContextMenu(contextMenu);
+function setOpenAtLogin(enabled: boolean): void {
+  if (app.getLoginItemSettings().openAtLogin === enabled) return;
+  app.setLoginItemSettings({ openAtLogin: enabled });
+  broadcastSettingsChanged(['openAtLogin']);
+}
+
+function handleConfigChange(config: Readonly<AppConfig>, changed: ConfigKey[]): void {
+  stayOnTop = config.stayOnTop;
+  const keys: SettingKey[] = changed.filter((key) => !PRIVATE_CONFIG_KEYS.includes(key));
+  if (changed.includes('auth')) keys.push('accounts');
+  broadcastSettingsChanged(keys);
+}
+
+// ============================================================
+// Global shortcuts — actions behind the user-configurable accelerators
+// ============================================================
+
+async function toggleTimer(): Promise<void> {
+  await refreshTimer(); // decide on the server's state, not the last poll
+  if (getTimerState().running) {
+    await stopTimer();
   } else {
+    await startTimer({ projectId: getDefaultProjectId() });
+  }
+}
+
+async function resumeLastEntry(): Promise<void> {
+  const [last] = getDistinctRecentEntries(1);
+  if (!last) {
+    log.info('Resume last entry: no recent entries');
+    return;
+  }
+  await resumeTimer(last.id);
+}
+
+function openQuickEntry(): void {
+  showPopup();
+  popup?.webContents.send('shortcut:quick-entry');
+}
+
+// Timer shortcuts open the popup instead when there's no session to act on
+function whenSignedIn(action: () => Promise<unknown>): () => void {
+  return () => {
+    if (updateTrayIcon() === 'signed-out') {
+      showPopup();
+      return;
+    }
+    runTimerAction(action);
+  };
+}
+
+const SHORTCUT_HANDLERS: Record<ShortcutAction, () => void> = {
+  togglePopup: () => togglePopup(),
+  startStop: whenSignedIn(toggleTimer),
+  resumeLast: whenSignedIn(resumeLastEntry),
+  quickEntry: openQuickEntry,
+};
+
+// Notification buttons — same timer actions as the tray menu
+const NOTIFICATION_HANDLERS: Record<NotificationAction, () => void> = {
+  startDefault: whenSignedIn(() => startTimer({ projectId: getDefaultProjectId() })),
+  stop: whenSignedIn(() => stopTimer()),
+  open: () => showPopup(),
+};
+
+// ============================================================
+// Deep links — ternity:// from the web app, wiki pages and scripts
+// ============================================================
+
+/** `project` may be an id or a name; absent means the default project, empty means none. */
+function resolveProjectRef(project: string | undefined): string | null {
+  if (project === undefined) return getDefaultProjectId();
+  if (project === '') return null;
+  const needle = project.toLowerCase();
+  const match = getTimerState().projects.find(
+    (p) => p.id === project || p.name.toLowerCase() === needle,
+  );
+  if (!match) log.warn('Unknown project', project);
+  return match?.id ?? null;
+}
+
+function openSettings(): void {
+  showPopup();
+  popup?.webContents.send('app:open-settings');
+}
+
+const DEEP_LINK_HANDLERS: DeepLinkHandlers = {
+  start: ({ description, project }) =>
+    whenSignedIn(() => startTimer({ description, projectId: resolveProjectRef(project) }))(),
+  stop: whenSignedIn(() => stopTimer()),
+  resume: ({ entryId }) => whenSignedIn(() => resumeTimer(entryId))(),
+  open: () => showPopup(),
+  settings: () => openSettings(),
+};
+
+// ============================================================
+// Control endpoint — commands from the `ternity` CLI, editors and scripts; also served over
+// the opt-in loopback HTTP API
+// ============================================================
+
+function summarizeEntry(entry: Entry) {
+  return {
+    id: entry.id,
+    description: entry.description,
+    project: entry.projectName,
+    elapsedSeconds: getElapsedSeconds(entry),
+  };
+}
+
+function timerSummary() {
+  const { running, entry, todaySeconds } = getTimerState();
+  return { running, entry: entry ? summarizeEntry(entry) : null, todaySeconds };
+}
+
+function requireSession(): void {
+  if (!isSignedIn()) throw new Error('Not signed in — open Ternity to sign in');
+}
+
+async function runControlAction(action: () => Promise<ApiResult>) {
+  requireSession();
+  const result = await action();
+  if (result.error) throw new Error(result.error);
+  return { ...timerSummary(), queued: result.queued ?? false };
+}
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const CONTROL_HANDLERS: ControlHandlers = {
+  status: async () => {
+    if (!isSignedIn()) return { signedIn: false, environment: getActiveEnvironment() };
+    // Offline — answer from the last known state rather than failing
+    await refreshTimer().catch((err) => log.debug('Status refresh failed:', err));
+    return {
+      signedIn: true,
+      environment: getActiveEnvironment(),
+      demo: isDemoMode(),
+      online: isOnline(),
+      ...timerSummary(),
+    };
+  },
+  start: ({ description, project }) =>
+    runControlAction(() =>
+      startTimer({
+        description: optionalString(description),
+        projectId: resolveProjectRef(optionalString(project)),
+      }),
+    ),
+  stop: () => runControlAction(() => stopTimer()),
+  resume: async ({ entryId }) => {
+    requireSession();
+    let id = optionalString(entryId);
+    if (!id) {
+      if (getTimerState().recentEntries.length === 0) await refreshEntries();
+      id = getDistinctRecentEntries(1)[0]?.id;
+      if (!id) throw new Error('No recent entry to resume');
+    }
+    const resumeId = id;
+    return runControlAction(() => resumeTimer(resumeId));
+  },
+  recent: async ({ limit }) => {
+    requireSession();
+    await refreshEntries().catch((err) => log.debug('Entries refresh failed:', err));
+    const count = typeof limit === 'number' ? Math.min(Math.max(1, Math.floor(limit)), 50) : 10;
+    return getDistinctRecentEntries(count).map(summarizeEntry);
+  },
+  projects: async () => {
+    requireSession();
+    return getTimerState().projects.map(({ id, name, clientName }) => ({ id, name, clientName }));
+  },
+};
+
+// ============================================================
+// Idle detection — ask what to do with time spent away from the machine
+// ============================================================
+
+function handleIdleReturn(period: IdlePeriod): void {
+  showPopup();
+  popup?.webContents.send('idle:detected', period);
+}
+
+function createTray(): void {
+  trayIconState = getTrayIconState();
+  tray = new Tray(createTrayIcon(trayIconState));
+  updateTrayStatus();
+
+  tray.on('click', togglePopup);
+  tray.on('double-click', togglePopup);
+
+  if (!isLinux) {
     tray.on('right-click', () => {
-      contextMenu.items[2].checked = app.getLoginItemSettings().openAtLogin;
-      contextMenu.items[3].checked = stayOnTop;
-      tray?.popUpContextMenu(contextMenu);
+      tray?.popUpContextMenu(buildTrayMenu());
+      refreshMenuDataIfStale();
     });
   }
 }
 
+// One tray per user — a second launch hands over its link (or just opens the popup) and exits
+const hasInstanceLock = app.requestSingleInstanceLock();
+if (!hasInstanceLock) {
+  log.info('Another instance is running — handing over and quitting');
+  app.quit();
+}
+
+app.on('second-instance', (_event, argv) => {
+  const link = findDeepLink(argv);
+  // `Ternity --log-level=api=debug` adjusts the running app's logging without opening the popup
+  if (applyLogFlags(argv) && !link) return;
+  handleDeepLink(link ?? 'ternity://open');
+});
+
+// macOS delivers links as an event, possibly before ready — handleDeepLink queues until then
+app.on('open-url', (event, url) => {
+  event.preventDefault();
+  handleDeepLink(url);
+});
+
 app.whenReady().then(() => {
+  if (!hasInstanceLock) return;
+  initLogSettings(process.argv);
   log.info('App ready', { version: app.getVersion(), platform: process.platform, arch: process.arch });
   log.info('Log file:', getLogPath());
 
@@ -376,17 +980,41 @@ app.whenReady().then(() => {
 
   loadSavedPosition();
   popupHeight = loadSavedHeight();
-  stayOnTop = readConfig().stayOnTop === true;
+  stayOnTop = getConfig().stayOnTop;
+  onConfigChange(handleConfigChange);
   createTray();
   popup = createPopup();
 
+  initCache();
+  initShortcuts(SHORTCUT_HANDLERS);
+  initIdleMonitor(handleIdleReturn);
+  initPowerMonitor();
+  initNotifications(NOTIFICATION_HANDLERS);
+  initLongTimerMonitor();
+  initHooks();
+  initConnectivityMonitor();
+  initMutationQueue();
+  initPush();
+  initDeepLinks(DEEP_LINK_HANDLERS);
+  initControlServer(CONTROL_HANDLERS);
+  initLocalApi(CONTROL_HANDLERS);
+  initUpdater();
+  onUpdateStatusChange(handleUpdateStatusChange);
+
+  // Tray readout follows the main-process timer model
+  onTimerStateChange(updateTrayStatus);
+  onConnectivityChange(updateTrayStatus);
+  refreshTimerStateIfStale();
+  setInterval(() => {
+    refreshTimerStateIfStale();
+    refreshMenuDataIfStale();
+  }, TIMER_REFRESH_INTERVAL_MS);
+
   // Windows: update tray icon when user switches light/dark mode
   if (process.platform === 'win32') {
     nativeTheme.on('updated', () => {
-      if (!tray) return;
-      const resourceDir = app.isPackaged ? process.resourcesPath : join(__dirname, '../../resources');
-      const iconPath = join(resourceDir, getTrayIconName());
-      tray.setImage(nativeImage.createFromPath(iconPath));
+      clearTrayIconCache();
+      updateTrayIcon(true);
     });
   }
 
@@ -437,16 +1065,28 @@ app.whenReady().then(() => {
   });
 
   // IPC: environment persistence
-  ipcMain.handle('auth:get-env', () => {
-    const config = readConfig();
-    return (config.environment as string) ?? null;
-  });
+  ipcMain.handle('auth:get-env', () => getConfig().environment);
+
+  ipcMain.handle('auth:set-env', (_event, env: string) => switchEnvironment(env));
 
-  ipcMain.handle('auth:set-env', (_event, env: string) => {
-    log.info('Environment switched to', env);
-    const config = readConfig();
-    config.environment = env;
-    writeConfig(config);
+  // IPC: user-defined environments
+  ipcMain.handle('environments:list', () => listEnvironments());
+
+  ipcMain.handle('environments:add', (_event, input: CustomEnvironmentInput) =>
+    addCustomEnvironment(input),
+  );
+
+  ipcMain.handle('environments:remove', async (_event, envId: string) => {
+    if (!findEnvironment(envId)?.custom) return; // built-ins can't be removed
+    const wasActive = getActiveEnvironment() === envId;
+    // Drop the cache while the session still says whose it is, then the session itself —
+    // revoked while the environment's endpoints are still known
+    clearCache(envId);
+    await signOut(envId, { signOutPage: false }).catch((err) =>
+      log.warn(`Sign-out of ${envId} failed:`, err),
+    );
+    removeCustomEnvironment(envId);
+    if (wasActive) switchEnvironment(DEFAULT_ENVIRONMENT);
   });
 
   // IPC: open URL in system browser
@@ -456,47 +1096,69 @@ app.whenReady().then(() => {
 
   // IPC: auth — PKCE sign-in flow
   ipcMain.handle('auth:sign-in', async (_event, envId: string) => {
-    const result = await signIn(envId as EnvironmentId, (data) => {
+    const result = await signIn(envId, (data) => {
       popup?.webContents.send('auth:progress', data);
     });
-    if (result.success) showPopup();
+    if (result.success) {
+      resumeParkedMutations(envId);
+      hydrateFromCache();
+      showPopup();
+      refreshTimerStateIfStale();
+      restartPush();
+    }
     return result;
   });
 
   // IPC: auth — demo sign-in (activate mock server)
   ipcMain.handle('auth:sign-in-demo', () => {
     log.info('Demo mode activated');
-    isDemoMode = true;
+    setDemoMode(true);
     initDemo();
+    checkConnectivity();
+    refreshTimerStateIfStale();
+    restartPush();
   });
 
   // IPC: auth — sign out (clear tokens + open branded sign-out page in browser)
   ipcMain.handle('auth:sign-out', async (_event, envId: string) => {
-    if (isDemoMode) {
-      log.info('Demo mode deactivated');
-      isDemoMode = false;
-      resetDemo();
-      return;
-    }
-    if (envId === 'local') {
-      log.info('Local stub sign-out — clearing tokens only');
-      clearTokens(envId as EnvironmentId);
+    try {
+      if (isDemoMode()) {
+        log.info('Demo mode deactivated');
+        setDemoMode(false);
+        resetDemo();
+        checkConnectivity();
+        replayQueue(); // held while in demo mode
+        return;
+      }
+      // The cache belongs to this user — drop it while we still know who they are
+      clearCache(envId);
+      if (envId === 'local') {
+        log.info('Local stub sign-out — clearing tokens only');
+        clearTokens(envId);
+        popup?.hide();
+        return;
+      }
+      const { signOutPageUrl } = await signOut(envId);
       popup?.hide();
-      return;
+      if (signOutPageUrl) await shell.openExternal(signOutPageUrl);
+    } finally {
+      // Tokens are gone by now — reset re-renders the tray as signed out
+      resetTimerState();
+      restartPush();
     }
-    const { signOutPageUrl } = await signOut(envId as EnvironmentId);
-    popup?.hide();
-    await shell.openExternal(signOutPageUrl);
   });
 
+  // IPC: auth — every signed-in account, for the header switcher
+  ipcMain.handle('auth:list-accounts', () => listAccounts());
+
   // IPC: auth — check stored auth state
   ipcMain.handle('auth:get-auth-state', (_event, envId: string) => {
-    return getAuthState(envId as EnvironmentId);
+    return getAuthState(envId);
   });
 
   // IPC: auth — get valid access token (auto-refreshes if expired)
   ipcMain.handle('auth:get-access-token', (_event, envId: string) => {
-    return getAccessToken(envId as EnvironmentId);
+    return getAccessToken(envId);
   });
 
   // IPC: auth — cancel in-progress sign-in
@@ -510,107 +1172,170 @@ app.whenReady().then(() => {
   });
 
   ipcMain.handle('app:set-login-item', (_event, enabled: boolean) => {
-    app.setLoginItemSettings({ openAtLogin: enabled });
+    setOpenAtLogin(enabled);
   });
 
   // IPC: remember position toggle
-  ipcMain.handle('app:get-remember-position', () => {
-    const config = readConfig();
-    return config.rememberPosition === true;
-  });
+  ipcMain.handle('app:get-remember-position', () => getConfig().rememberPosition);
 
   ipcMain.handle('app:set-remember-position', (_event, enabled: boolean) => {
-    const config = readConfig();
-    config.rememberPosition = enabled;
-    if (!enabled) {
-      delete config.windowX;
-      delete config.windowY;
+    if (enabled) {
+      setConfig({ rememberPosition: true });
+    } else {
+      setConfig({ rememberPosition: false, windowX: null, windowY: null });
       savedPosition = null;
     }
-    writeConfig(config);
   });
 
   // IPC: stay on top toggle
   ipcMain.handle('app:get-stay-on-top', () => stayOnTop);
 
   ipcMain.handle('app:set-stay-on-top', (_event, enabled: boolean) => {
-    stayOnTop = enabled;
-    const config = readConfig();
-    config.stayOnTop = enabled;
-    writeConfig(config);
+    setConfig({ stayOnTop: enabled });
   });
 
   // IPC: default project preference
-  ipcMain.handle('app:get-default-project', () => {
-    const config = readConfig();
-    return (config.defaultProjectId as string) ?? null;
-  });
+  ipcMain.handle('app:get-default-project', () => getConfig().defaultProjectId);
 
   ipcMain.handle('app:set-default-project', (_event, projectId: string | null) => {
-    const config = readConfig();
-    if (projectId) {
-      config.defaultProjectId = projectId;
-    } else {
-      delete config.defaultProjectId;
-    }
-    writeConfig(config);
+    setConfig({ defaultProjectId: projectId || null });
   });
 
-  // IPC: open log file in Finder
-  ipcMain.handle('app:open-logs', () => {
-    return shell.showItemInFolder(getLogPath());
+  // IPC: global shortcuts
+  ipcMain.handle('shortcuts:get', () => getShortcuts());
+
+  ipcMain.handle('shortcuts:set', (_event, action: ShortcutAction, accelerator: string | null) => {
+    return setShortcut(action, accelerator);
   });
 
-  // IPC: API proxy — avoids CORS by making fetch calls from main process
-  ipcMain.handle(
-    'api:fetch',
-    async (_event, envId: string, path: string, options?: { method?: string; body?: unknown }) => {
-      // Demo mode: route to in-memory mock server
-      if (isDemoMode) {
-        apiLog.debug(`[demo] ${options?.method ?? 'GET'} ${path}`);
-        return handleDemoRequest(path, options);
-      }
+  // Release shortcuts while the settings UI records a key combination
+  ipcMain.on('shortcuts:set-recording', (_event, recording: boolean) => {
+    suspendShortcuts(recording);
+  });
 
-      const token = await getAccessToken(envId as EnvironmentId);
-      if (!token) {
-        apiLog.warn(`[${envId}] No access token for ${path}`);
-        return { error: 'No access token', status: 401 };
-      }
+  // IPC: idle detection
+  ipcMain.handle('idle:get-pending', () => getPendingIdle());
 
-      const env = ENVIRONMENTS[envId as EnvironmentId];
-      const method = options?.method ?? 'GET';
-      const headers: Record<string, string> = {
-        Authorization: `Bearer ${token}`,
-      };
+  ipcMain.handle('idle:resolve', () => {
+    clearPendingIdle();
+  });
 
-      let body: string | undefined;
-      if (method !== 'GET') {
-        headers['Content-Type'] = 'application/json';
-        body = options?.body !== undefined ? JSON.stringify(options.body) : '{}';
-      }
+  ipcMain.handle('idle:get-threshold', () => getIdleThreshold());
+
+  ipcMain.handle('idle:set-threshold', (_event, minutes: number) => {
+    setIdleThreshold(minutes);
+  });
 
-      const url = `${env.apiBaseUrl}${path}`;
-      apiLog.debug(`[${envId}] ${method} ${path}`);
+  // IPC: suspend / lock / shutdown policies
+  ipcMain.handle('power:get-policies', () => getPowerPolicies());
 
-      try {
-        const res = await fetch(url, { method, headers, body });
+  ipcMain.handle('power:set-policy', (_event, powerEvent: PowerEvent, policy: PowerPolicy) => {
+    setPowerPolicy(powerEvent, policy);
+  });
 
-        if (!res.ok) {
-          const text = await res.text().catch(() => '');
-          apiLog.warn(`[${envId}] ${method} ${path} → ${res.status} ${res.statusText}`, text.slice(0, 200));
-          return { error: `${res.status} ${res.statusText}: ${text}`, status: res.status };
-        }
+  // IPC: long-running timer warning / auto-stop
+  ipcMain.handle('long-timer:get-settings', () => getLongTimerSettings());
 
-        const data = await res.json();
-        apiLog.debug(`[${envId}] ${method} ${path} → ${res.status}`);
-        return { data, status: res.status };
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Network error';
-        apiLog.error(`[${envId}] ${method} ${path} NETWORK ERROR:`, message);
-        return { error: message, status: 0 };
-      }
+  ipcMain.handle('long-timer:set-settings', (_event, patch: Partial<LongTimerSettings>) => {
+    return setLongTimerSettings(patch);
+  });
+
+  // IPC: notifications
+  ipcMain.handle('notifications:get-settings', () => getNotificationSettings());
+
+  ipcMain.handle(
+    'notifications:set-settings',
+    (_event, patch: Partial<Omit<NotificationSettings, 'snoozedUntil'>>) => {
+      const settings = setNotificationSettings(patch);
+      refreshLinuxTrayMenu();
+      return settings;
     },
   );
+
+  ipcMain.handle('notifications:snooze', (_event, until: number | null) => {
+    const settings = snoozeNotifications(until);
+    refreshLinuxTrayMenu();
+    return settings;
+  });
+
+  // IPC: auto-update
+  ipcMain.handle('update:get-status', () => getUpdateStatus());
+
+  ipcMain.handle('update:check', () => checkForUpdates());
+
+  ipcMain.handle('update:install', () => installUpdate());
+
+  ipcMain.handle('update:get-settings', () => getUpdateSettings());
+
+  ipcMain.handle('update:set-settings', (_event, patch: Partial<UpdateSettings>) =>
+    setUpdateSettings(patch),
+  );
+
+  // IPC: event hooks — user scripts and webhooks run on timer changes
+  ipcMain.handle('hooks:list', () => listHooks());
+
+  ipcMain.handle('hooks:add', (_event, input: HookInput) => addHook(input));
+
+  ipcMain.handle('hooks:remove', (_event, id: string) => removeHook(id));
+
+  ipcMain.handle('hooks:test', (_event, id: string) => testHook(id));
+
+  // IPC: logging — levels, format and rotation; applied immediately
+  ipcMain.handle('logging:get-state', () => getLoggingState());
+
+  ipcMain.handle('logging:set-settings', (_event, patch: Partial<LoggingSettings>) =>
+    setLoggingSettings(patch),
+  );
+
+  // IPC: local HTTP API for browser extensions and editor plugins
+  ipcMain.handle('local-api:get-status', () => getLocalApiStatus());
+
+  ipcMain.handle(
+    'local-api:set-settings',
+    (_event, patch: Partial<Omit<LocalApiSettings, 'token'>>) => setLocalApiSettings(patch),
+  );
+
+  ipcMain.handle('local-api:regenerate-token', () => regenerateLocalApiToken());
+
+  // IPC: persistent cache — last known data for instant startup
+  ipcMain.handle('cache:get', () => getCachedData());
+
+  // IPC: popup visibility (pushed on show/hide)
+  ipcMain.handle('popup:get-visible', () => popup?.isVisible() ?? false);
+
+  // IPC: connectivity
+  ipcMain.handle('connectivity:get', () => getConnectivity());
+
+  // IPC: server push
+  ipcMain.handle('push:get-status', () => isPushConnected());
+
+  // IPC: offline mutation queue
+  ipcMain.handle('sync:get-status', () => getSyncStatus());
+
+  // IPC: open log file in Finder
+  ipcMain.handle('app:open-logs', () => {
+    return shell.showItemInFolder(getLogPath());
+  });
+
+  // IPC: diagnostics bundle — saved wherever the user picks, then revealed
+  ipcMain.handle('app:create-diagnostics', async (event) => {
+    nativeDialogOpen = true;
+    const result = await createDiagnosticsBundle(
+      BrowserWindow.fromWebContents(event.sender),
+    ).finally(() => {
+      nativeDialogOpen = false;
+    });
+    if (result.success && result.path) shell.showItemInFolder(result.path);
+    return result;
+  });
+
+  // IPC: API proxy — avoids CORS by making fetch calls from main process.
+  // Mutations that can't reach the server are queued and replayed later.
+  ipcMain.handle(
+    'api:fetch',
+    (_event, envId: string, path: string, options?: { method?: string; body?: unknown }) =>
+      fetchOrQueue(envId, path, options),
+  );
 });
 
 // macOS: subscribe to space-change notifications
@@ -631,6 +1356,25 @@ app.on('before-quit', () => {
   log.info('App quitting');
 });
 
+app.on('will-quit', () => {
+  if (!hasInstanceLock) return; // nothing was started
+  disposeDeepLinks();
+  disposeControlServer();
+  disposeLocalApi();
+  disposeUpdater();
+  disposeShortcuts();
+  disposeIdleMonitor();
+  disposePowerMonitor();
+  disposeLongTimerMonitor();
+  disposeHooks();
+  disposeNotifications();
+  disposeMutationQueue();
+  disposeConnectivityMonitor();
+  disposePush();
+  disposeCache();
+  disposeLogSettings();
+});
+
 app.on('activate', () => {
   log.debug('App activated');
 });
@@ -0,0 +1,251 @@
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+import type { ControlCommand, ControlHandlers } from './control-server';
+
+const log = createLogger('local-api');
+
+// ============================================================
+// Settings — `localApi` in config.json (off until enabled in settings)
+// ============================================================
+
+export interface LocalApiSettings {
+  enabled: boolean;
+  port: number;
+  token: string | null;
+}
+
+export interface LocalApiStatus extends LocalApiSettings {
+  listening: boolean;
+  error: string | null;
+}
+
+const DEFAULT_SETTINGS: LocalApiSettings = {
+  enabled: false,
+  port: 21988, // next to the auth callback server's 21987
+  token: null,
+};
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+function isValidPort(port: unknown): port is number {
+  return typeof port === 'number' && Number.isInteger(port) && port >= 1024 && port <= 65535;
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function getLocalApiSettings(): LocalApiSettings {
+  const stored = getConfig().localApi ?? {};
+  return {
+    enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_SETTINGS.enabled,
+    port: isValidPort(stored.port) ? stored.port : DEFAULT_SETTINGS.port,
+    token: typeof stored.token === 'string' && stored.token ? stored.token : null,
+  };
+}
+
+export function getLocalApiStatus(): LocalApiStatus {
+  return { ...getLocalApiSettings(), listening: server?.listening ?? false, error: lastError };
+}
+
+/** Enabling for the first time generates a token; the server restarts to pick up any change. */
+export async function setLocalApiSettings(
+  patch: Partial<Omit<LocalApiSettings, 'token'>>,
+): Promise<LocalApiStatus> {
+  const current = getLocalApiSettings();
+  const settings: LocalApiSettings = {
+    enabled: patch.enabled ?? current.enabled,
+    port: isValidPort(patch.port) ? patch.port : current.port,
+    token: current.token,
+  };
+  if (settings.enabled && !settings.token) settings.token = generateToken();
+  setConfig({ localApi: settings });
+  log.info(`Local API ${settings.enabled ? `enabled on port ${settings.port}` : 'disabled'}`);
+  await restart();
+  return getLocalApiStatus();
+}
+
+/** Invalidates the old token immediately — every integration has to be given the new one. */
+export function regenerateLocalApiToken(): LocalApiStatus {
+  setConfig({ localApi: { ...getLocalApiSettings(), token: generateToken() } });
+  log.info('Local API token regenerated');
+  return getLocalApiStatus();
+}
+
+// ============================================================
+// Routes — /v1, each mapped onto a control command
+// ============================================================
+
+interface Route {
+  method: 'GET' | 'POST';
+  path: string;
+  command: ControlCommand;
+}
+
+const ROUTES: Route[] = [
+  { method: 'GET', path: '/v1/timer', command: 'status' },
+  { method: 'POST', path: '/v1/timer/start', command: 'start' },
+  { method: 'POST', path: '/v1/timer/stop', command: 'stop' },
+  { method: 'GET', path: '/v1/entries/recent', command: 'recent' },
+  { method: 'GET', path: '/v1/projects', command: 'projects' },
+];
+
+let server: Server | null = null;
+let handlers: ControlHandlers | null = null;
+let lastError: string | null = null;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+/** Extensions call from their own origins; a bearer token (never a cookie) makes `*` safe. */
+function setCorsHeaders(res: ServerResponse): void {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Max-Age', '600');
+}
+
+/** Rejects DNS-rebinding — a hostile page resolving its own name to 127.0.0.1. */
+function isLoopbackHost(host: string | undefined, port: number): boolean {
+  return host === `127.0.0.1:${port}` || host === `localhost:${port}`;
+}
+
+function isAuthorized(header: string | undefined): boolean {
+  const token = getLocalApiSettings().token;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!token || !match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      if (!body.trim()) return resolve({});
+      try {
+        const parsed: unknown = JSON.parse(body);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          reject(new Error('Request body must be a JSON object'));
+        } else {
+          resolve(parsed as Record<string, unknown>);
+        }
+      } catch {
+        reject(new Error('Malformed JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  port: number,
+): Promise<void> {
+  setCorsHeaders(res);
+  if (!isLoopbackHost(req.headers.host, port)) {
+    return sendJson(res, 403, { error: 'Forbidden host' });
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://127.0.0.1:${port}`);
+  const matches = ROUTES.filter((r) => r.path === url.pathname);
+  const route = matches.find((r) => r.method === req.method);
+  if (matches.length === 0) return sendJson(res, 404, { error: 'Not found' });
+  if (!route) return sendJson(res, 405, { error: 'Method not allowed' });
+
+  if (!isAuthorized(req.headers.authorization)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return sendJson(res, 401, { error: 'Invalid or missing bearer token' });
+  }
+
+  let args: Record<string, unknown>;
+  try {
+    args = route.method === 'POST' ? await readJsonBody(req) : {};
+  } catch (err) {
+    return sendJson(res, 400, { error: err instanceof Error ? err.message : 'Bad request' });
+  }
+  const limit = url.searchParams.get('limit');
+  if (limit !== null) args.limit = Number(limit);
+
+  if (!handlers) return sendJson(res, 503, { error: 'Shutting down' });
+  // Handlers throw for anything the current state won't allow (signed out, nothing to stop, API error)
+  try {
+    const data = await handlers[route.command](args);
+    sendJson(res, 200, { data: data ?? null });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Command failed';
+    log.warn(`${route.method} ${route.path} failed:`, message);
+    sendJson(res, 409, { error: message });
+  }
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+function stop(): Promise<void> {
+  const current = server;
+  server = null;
+  if (!current) return Promise.resolve();
+  current.closeAllConnections();
+  return new Promise((resolve) => current.close(() => resolve()));
+}
+
+/** Bind 127.0.0.1 only — the API is never reachable from another machine. */
+function start(port: number): Promise<void> {
+  return new Promise((resolve) => {
+    const instance = createServer((req, res) => {
+      handleRequest(req, res, port).catch((err) => {
+        log.error('Request failed:', err);
+        if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+      });
+    });
+    instance.on('error', (err: NodeJS.ErrnoException) => {
+      lastError = err.code === 'EADDRINUSE' ? `Port ${port} is already in use` : err.message;
+      log.error('Local API failed to start:', lastError);
+      resolve();
+    });
+    instance.listen(port, '127.0.0.1', () => {
+      lastError = null;
+      log.info(`Local API listening on http://127.0.0.1:${port}/v1`);
+      resolve();
+    });
+    server = instance;
+  });
+}
+
+async function restart(): Promise<void> {
+  await stop();
+  lastError = null;
+  const { enabled, port } = getLocalApiSettings();
+  if (enabled && handlers) await start(port);
+}
+
+export function initLocalApi(controlHandlers: ControlHandlers): Promise<void> {
+  handlers = controlHandlers;
+  return restart();
+}
+
+export function disposeLocalApi(): void {
+  handlers = null;
+  stop();
+}
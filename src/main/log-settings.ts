@@ -0,0 +1,177 @@
+import { getConfig, setConfig, onConfigChange } from './config';
+import {
+  createLogger,
+  configureLogger,
+  getLogModules,
+  isLogLevel,
+  DEFAULT_LOGGER_OPTIONS,
+  type LogFormat,
+  type LogLevel,
+  type LoggerOptions,
+} from './logger';
+
+const log = createLogger('logging');
+
+// ============================================================
+// Settings — `logging` in config.json
+// ============================================================
+
+export interface LoggingSettings {
+  format: LogFormat;
+  level: LogLevel;
+  modules: Record<string, LogLevel>;
+  maxFileSizeMb: number;
+  maxFiles: number;
+}
+
+/** Saved settings, the modules that can be tuned, and any override from the command line. */
+export interface LoggingState {
+  settings: LoggingSettings;
+  modules: string[];
+  override: string | null; // the flags in effect for this session, e.g. `--log-level=api=debug`
+}
+
+const MAX_FILE_SIZE_MB = 50;
+const MAX_FILES = 10;
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, Math.round(value)))
+    : fallback;
+}
+
+function sanitizeModules(value: unknown): Record<string, LogLevel> {
+  if (typeof value !== 'object' || value === null) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, LogLevel] => entry[0] !== '' && isLogLevel(entry[1]),
+    ),
+  );
+}
+
+export function getLoggingSettings(): LoggingSettings {
+  const stored = getConfig().logging ?? {};
+  return {
+    format: stored.format === 'json' ? 'json' : DEFAULT_LOGGER_OPTIONS.format,
+    level: isLogLevel(stored.level) ? stored.level : DEFAULT_LOGGER_OPTIONS.level,
+    modules: sanitizeModules(stored.modules),
+    maxFileSizeMb: clampInt(
+      stored.maxFileSizeMb,
+      1,
+      MAX_FILE_SIZE_MB,
+      DEFAULT_LOGGER_OPTIONS.maxFileSize / (1024 * 1024),
+    ),
+    maxFiles: clampInt(stored.maxFiles, 1, MAX_FILES, DEFAULT_LOGGER_OPTIONS.maxFiles),
+  };
+}
+
+/** Saving from settings ends a command-line override — the user has picked what they want. */
+export function setLoggingSettings(patch: Partial<LoggingSettings>): LoggingState {
+  override = null;
+  setConfig({ logging: { ...getLoggingSettings(), ...patch } });
+  apply();
+  log.info('Logging settings updated', getLoggingSettings());
+  return getLoggingState();
+}
+
+export function getLoggingState(): LoggingState {
+  return {
+    settings: getLoggingSettings(),
+    modules: getLogModules(),
+    override: override && override.flags.join(' '),
+  };
+}
+
+// ============================================================
+// Command-line override — `--log-level=debug`, `--log-level=info,api=debug,auth=debug`,
+// `--log-format=json`. Session only; a second launch passes them to the running app.
+// ============================================================
+
+interface LogOverride {
+  flags: string[];
+  format?: LogFormat;
+  level?: LogLevel;
+  modules: Record<string, LogLevel>;
+}
+
+let override: LogOverride | null = null;
+
+/** `level` and `module=level` items, comma- or space-separated; null if any item is invalid. */
+function parseLevelSpec(spec: string): Pick<LogOverride, 'level' | 'modules'> | null {
+  const items = spec.split(/[\s,]+/).filter(Boolean);
+  if (items.length === 0) return null;
+  const result: Pick<LogOverride, 'level' | 'modules'> = { modules: {} };
+  for (const item of items) {
+    const [name, level] = item.includes('=') ? item.split('=', 2) : [null, item];
+    if (!isLogLevel(level)) return null;
+    if (name) result.modules[name] = level;
+    else result.level = level;
+  }
+  return result;
+}
+
+function parseFlags(argv: string[]): LogOverride | null {
+  const parsed: LogOverride = { flags: [], modules: {} };
+  for (const arg of argv) {
+    const [flag, value = ''] = arg.split(/=(.*)/s, 2);
+    if (flag === '--log-level') {
+      const spec = parseLevelSpec(value);
+      if (!spec) {
+        log.warn(`Ignoring ${arg} — expected a level or module=level items`);
+        continue;
+      }
+      parsed.level = spec.level ?? parsed.level;
+      Object.assign(parsed.modules, spec.modules);
+      parsed.flags.push(arg);
+    } else if (flag === '--log-format') {
+      if (value !== 'text' && value !== 'json') {
+        log.warn(`Ignoring ${arg} — expected text or json`);
+        continue;
+      }
+      parsed.format = value;
+      parsed.flags.push(arg);
+    }
+  }
+  return parsed.flags.length > 0 ? parsed : null;
+}
+
+function apply(): void {
+  const settings = getLoggingSettings();
+  const options: LoggerOptions = {
+    format: override?.format ?? settings.format,
+    level: override?.level ?? settings.level,
+    modules: { ...settings.modules, ...override?.modules },
+    maxFileSize: settings.maxFileSizeMb * 1024 * 1024,
+    maxFiles: settings.maxFiles,
+  };
+  configureLogger(options);
+}
+
+/** Apply `--log-*` flags from a launch. Returns whether there were any. */
+export function applyLogFlags(argv: string[]): boolean {
+  const parsed = parseFlags(argv);
+  if (!parsed) return false;
+  override = parsed;
+  apply();
+  log.info(`Log override for this session: ${parsed.flags.join(' ')}`);
+  return true;
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+let unsubscribe: (() => void) | null = null;
+
+export function initLogSettings(argv: string[]): void {
+  apply();
+  applyLogFlags(argv);
+  unsubscribe = onConfigChange((_config, changed) => {
+    if (changed.includes('logging')) apply();
+  });
+}
+
+export function disposeLogSettings(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+}
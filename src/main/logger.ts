@@ -1,13 +1,15 @@
 import { app } from 'electron';
 import { join } from 'path';
-import { appendFileSync, statSync, renameSync, existsSync, mkdirSync } from 'fs';
+import { appendFileSync, statSync, renameSync, existsSync, mkdirSync, rmSync } from 'fs';
 import { is } from '@electron-toolkit/utils';
 
 // ============================================================
 // Log levels
 // ============================================================
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
 
 const LEVEL_PRIORITY: Record<LogLevel, number> = {
   debug: 0,
@@ -16,18 +18,72 @@ const LEVEL_PRIORITY: Record<LogLevel, number> = {
   error: 3,
 };
 
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LEVEL_PRIORITY;
+}
+
 // ============================================================
-// Config — environment-aware
+// Options — environment-aware defaults, replaced at runtime by log-settings.ts
 // ============================================================
 
-const MAX_LOG_SIZE = 2 * 1024 * 1024; // 2 MB — rotate when exceeded
+/** `text` is one human-readable line per call; `json` is one JSON object per line. */
+export type LogFormat = 'text' | 'json';
+
+export interface LoggerOptions {
+  format: LogFormat;
+  level: LogLevel; // modules without an override
+  modules: Record<string, LogLevel>; // per-tag overrides, e.g. { api: 'debug' }
+  maxFileSize: number; // bytes — rotate when exceeded
+  maxFiles: number; // rotated files kept next to app.log
+}
+
+export const DEFAULT_LOGGER_OPTIONS: LoggerOptions = {
+  format: 'text',
+  // Dev builds: log everything. Packaged builds: info and above (skip debug noise from polling)
+  level: is.dev ? 'debug' : 'info',
+  modules: {},
+  maxFileSize: 2 * 1024 * 1024,
+  maxFiles: 2, // app.prev.log, app.prev2.log
+};
 
-// Dev builds: log everything. Packaged builds: info and above (skip debug noise from polling)
-const MIN_LEVEL: LogLevel = is.dev ? 'debug' : 'info';
+let options: LoggerOptions = DEFAULT_LOGGER_OPTIONS;
 
 // Console output: always in dev, only warn+ in packaged (keeps stdout clean)
 const CONSOLE_MIN_LEVEL: LogLevel = is.dev ? 'debug' : 'warn';
 
+export function configureLogger(next: LoggerOptions): void {
+  options = next;
+}
+
+// ============================================================
+// Redaction — credentials never reach the log file, whatever the caller passes
+// ============================================================
+
+const REDACTED = '[redacted]';
+
+const REDACTIONS: [RegExp, string][] = [
+  // Authorization headers
+  [/\b(Bearer\s+)[\w\-.~+/]+=*/gi, `$1${REDACTED}`],
+  // Token fields in JSON, objects and form bodies: "refresh_token":"…", accessToken=…
+  [
+    /\b((?:access|refresh|id)_?token|code_verifier|client_secret|token)(["']?\s*[:=]\s*["']?)[^\s"'&,}]+/gi,
+    `$1$2${REDACTED}`,
+  ],
+  // OAuth authorization codes in callback URLs and token requests
+  [/\b(code=)[^&\s"']+/g, `$1${REDACTED}`],
+  // …and in JSON — long values only, so API error codes like "network" stay readable
+  [/("code"\s*:\s*")[^"]{16,}/g, `$1${REDACTED}`],
+  // Bare JWTs (ID tokens, access tokens) wherever they appear
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, REDACTED],
+];
+
+export function redact(text: string): string {
+  return REDACTIONS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text,
+  );
+}
+
 // ============================================================
 // File setup
 // ============================================================
@@ -42,16 +98,21 @@ function ensureLogDir(): void {
   logPath = join(logDir, 'app.log');
 }
 
+/** 1 → app.prev.log, 2 → app.prev2.log, … (the names predate configurable rotation). */
+function rotatedPath(n: number): string {
+  return join(logDir!, n === 1 ? 'app.prev.log' : `app.prev${n}.log`);
+}
+
 function rotateIfNeeded(): void {
   if (!logPath) return;
   try {
     const stats = statSync(logPath);
-    if (stats.size > MAX_LOG_SIZE) {
-      const prev = join(logDir!, 'app.prev.log');
-      if (existsSync(prev)) {
-        renameSync(prev, join(logDir!, 'app.prev2.log'));
+    if (stats.size > options.maxFileSize) {
+      rmSync(rotatedPath(options.maxFiles), { force: true });
+      for (let n = options.maxFiles - 1; n >= 1; n--) {
+        if (existsSync(rotatedPath(n))) renameSync(rotatedPath(n), rotatedPath(n + 1));
       }
-      renameSync(logPath, prev);
+      renameSync(logPath, rotatedPath(1));
     }
   } catch {
     // File doesn't exist yet — that's fine
@@ -62,36 +123,47 @@ function rotateIfNeeded(): void {
 // Core write
 // ============================================================
 
+// Each piece is redacted before it's assembled — once a JSON line escapes its quotes, the
+// patterns no longer match
+function formatArg(a: unknown): string {
+  if (a instanceof Error) return redact(`${a.message}\n${a.stack}`);
+  if (typeof a === 'object' && a !== null) {
+    try { return redact(JSON.stringify(a)); } catch { return redact(String(a)); }
+  }
+  return redact(String(a));
+}
+
+function formatLine(ts: string, level: LogLevel, tag: string, args: unknown[]): string {
+  if (options.format === 'text') {
+    const prefix = `${ts} [${level.toUpperCase().padEnd(5)}] [${tag}]`;
+    return `${prefix} ${args.map(formatArg).join(' ')}`;
+  }
+  // JSON lines: stacks get their own field so `msg` stays one line
+  const error = args.find((a): a is Error => a instanceof Error);
+  const msg = args.map((a) => (a instanceof Error ? redact(a.message) : formatArg(a))).join(' ');
+  const stack = error?.stack && redact(error.stack);
+  return JSON.stringify({ ts, level, module: tag, msg, ...(stack && { stack }) });
+}
+
 function writeLog(level: LogLevel, tag: string, args: unknown[]): void {
-  if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[MIN_LEVEL]) return;
-
-  const ts = new Date().toISOString();
-  const prefix = `${ts} [${level.toUpperCase().padEnd(5)}] [${tag}]`;
-  const msg = args
-    .map((a) => {
-      if (a instanceof Error) return `${a.message}\n${a.stack}`;
-      if (typeof a === 'object' && a !== null) {
-        try { return JSON.stringify(a); } catch { return String(a); }
-      }
-      return String(a);
-    })
-    .join(' ');
+  const minLevel = options.modules[tag] ?? options.level;
+  if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[minLevel]) return;
 
-  const line = `${prefix} ${msg}\n`;
+  const line = formatLine(new Date().toISOString(), level, tag, args);
 
   // Console — verbose in dev, quiet in packaged
   if (LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[CONSOLE_MIN_LEVEL]) {
     const consoleFn = level === 'error' ? console.error
       : level === 'warn' ? console.warn
       : console.log;
-    consoleFn(`[${tag}]`, ...args);
+    consoleFn(`[${tag}]`, args.map(formatArg).join(' '));
   }
 
   // File — always written (persisted for post-mortem debugging)
   try {
     ensureLogDir();
     rotateIfNeeded();
-    appendFileSync(logPath!, line);
+    appendFileSync(logPath!, `${line}\n`);
   } catch {
     // Logging should never crash the app
   }
@@ -108,7 +180,10 @@ export interface Logger {
   error: (...args: unknown[]) => void;
 }
 
+const modules = new Set<string>();
+
 export function createLogger(tag: string): Logger {
+  modules.add(tag);
   return {
     debug: (...args) => writeLog('debug', tag, args),
     info: (...args) => writeLog('info', tag, args),
@@ -122,3 +197,15 @@ export function getLogPath(): string {
   ensureLogDir();
   return logPath!;
 }
+
+/** The current log plus whichever rotated logs exist, newest first. */
+export function getLogFiles(): string[] {
+  ensureLogDir();
+  const rotated = Array.from({ length: options.maxFiles }, (_, i) => rotatedPath(i + 1));
+  return [logPath!, ...rotated].filter((path) => existsSync(path));
+}
+
+/** Every tag passed to createLogger so far — the modules a level can be set for. */
+export function getLogModules(): string[] {
+  return [...modules].sort();
+}
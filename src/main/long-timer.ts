@@ -0,0 +1,124 @@
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+import { getTimerState, onTimerStateChange, getElapsedSeconds, formatDuration } from './timer-state';
+import { stopTimer, refreshTimer } from './timer-actions';
+import { notify } from './notifications';
+
+const log = createLogger('long-timer');
+
+// ============================================================
+// Settings — `longTimer` in config.json (0 hours disables a check)
+// ============================================================
+
+export interface LongTimerSettings {
+  warnAfterHours: number;
+  autoStopAfterHours: number;
+}
+
+const DEFAULT_SETTINGS: LongTimerSettings = {
+  warnAfterHours: 8,
+  autoStopAfterHours: 0,
+};
+
+const CHECK_INTERVAL_MS = 60_000;
+
+export function getLongTimerSettings(): LongTimerSettings {
+  const stored = getConfig().longTimer ?? {};
+  return {
+    warnAfterHours:
+      typeof stored.warnAfterHours === 'number' ? stored.warnAfterHours : DEFAULT_SETTINGS.warnAfterHours,
+    autoStopAfterHours:
+      typeof stored.autoStopAfterHours === 'number'
+        ? stored.autoStopAfterHours
+        : DEFAULT_SETTINGS.autoStopAfterHours,
+  };
+}
+
+export function setLongTimerSettings(patch: Partial<LongTimerSettings>): LongTimerSettings {
+  const settings = { ...getLongTimerSettings(), ...patch };
+  setConfig({ longTimer: settings });
+  log.info('Long timer settings updated', settings);
+  check();
+  return settings;
+}
+
+// ============================================================
+// Monitor — warn once per entry, auto-stop at the cap
+// ============================================================
+
+let checkTimer: ReturnType<typeof setInterval> | null = null;
+let unsubscribe: (() => void) | null = null;
+let warnedEntryId: string | null = null;
+let stoppingEntryId: string | null = null;
+
+function describe(description: string): string {
+  return description ? `“${description}”` : 'Your timer';
+}
+
+/** Stop at the moment the entry crossed the cap — not whenever we got round to noticing. */
+async function autoStop(entryId: string, capSeconds: number): Promise<void> {
+  await refreshTimer(); // never stop on a stale view — the server stops whatever is running
+  const { running, entry } = getTimerState();
+  if (!running || entry?.id !== entryId) return;
+
+  const overSeconds = getElapsedSeconds(entry) - capSeconds;
+  if (overSeconds < 0) return;
+  const stoppedAt = new Date(Date.now() - overSeconds * 1000).toISOString();
+  log.info(`Auto-stopping ${entryId} at ${stoppedAt}`);
+  const result = await stopTimer({ stoppedAt });
+  if (result.error) throw new Error(result.error);
+
+  notify('longTimer', {
+    title: 'Timer stopped',
+    body: `${describe(entry.description)} ran for ${formatDuration(capSeconds)} and was stopped automatically.`,
+    actions: ['open'],
+  });
+}
+
+function check(): void {
+  const { running, entry } = getTimerState();
+  if (!running || !entry) {
+    warnedEntryId = null;
+    return;
+  }
+
+  const settings = getLongTimerSettings();
+  const elapsed = getElapsedSeconds(entry);
+  const capSeconds = settings.autoStopAfterHours * 3600;
+
+  if (capSeconds > 0 && elapsed >= capSeconds) {
+    if (stoppingEntryId === entry.id) return;
+    stoppingEntryId = entry.id;
+    autoStop(entry.id, capSeconds)
+      .catch((err) => log.warn('Auto-stop failed:', err))
+      .finally(() => {
+        stoppingEntryId = null;
+      });
+    return;
+  }
+
+  const warnSeconds = settings.warnAfterHours * 3600;
+  if (warnSeconds > 0 && elapsed >= warnSeconds && warnedEntryId !== entry.id) {
+    warnedEntryId = entry.id;
+    log.info(`Timer ${entry.id} running for ${formatDuration(elapsed)}`);
+    notify('longTimer', {
+      title: 'Timer still running',
+      body: `${describe(entry.description)} has been running for ${formatDuration(elapsed)}. Did you forget to stop it?`,
+      actions: ['stop', 'open'],
+    });
+  }
+}
+
+export function initLongTimerMonitor(): void {
+  unsubscribe?.();
+  unsubscribe = onTimerStateChange(check);
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = setInterval(check, CHECK_INTERVAL_MS);
+}
+
+export function disposeLongTimerMonitor(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = null;
+}
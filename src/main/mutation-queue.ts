@@ -0,0 +1,410 @@
+import { app, BrowserWindow } from 'electron';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, renameSync } from 'fs';
+import { createLogger } from './logger';
+import {
+  apiFetch,
+  getActiveEnvironment,
+  isDemoMode,
+  type ApiRequestOptions,
+  type ApiResult,
+} from './api';
+import { isTransientError } from './api-client';
+import type { EnvironmentId } from './environments';
+import type { Entry, TimerState } from './api-types';
+import { getTimerState, observeApiResponse } from './timer-state';
+import { notify } from './notifications';
+import { onConnectivityChange } from './connectivity';
+
+const log = createLogger('queue');
+
+// ============================================================
+// Types
+// ============================================================
+
+interface QueuedMutation {
+  id: string; // also the Idempotency-Key — the server drops replays it has already applied
+  envId: EnvironmentId;
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncStatus {
+  pending: number;
+  retrying: boolean; // the server rejected the last replay with a transient error
+}
+
+const RETRY_INTERVAL_MS = 30_000;
+const MAX_SERVER_ATTEMPTS = 10; // answered with 5xx / 429 this often — give up on the item
+const LOCAL_ID_PREFIX = 'local-';
+
+/** Optimistic entries carry a local id until their replay returns the server's. */
+export function isLocalEntryId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+// ============================================================
+// Persistence — mutation-queue.json next to config.json, so a restart keeps the backlog
+// ============================================================
+
+let queue: QueuedMutation[] = [];
+
+function getQueuePath(): string {
+  return join(app.getPath('userData'), 'mutation-queue.json');
+}
+
+function load(): void {
+  const path = getQueuePath();
+  if (!existsSync(path)) return;
+  try {
+    const stored = JSON.parse(readFileSync(path, 'utf-8'));
+    queue = Array.isArray(stored) ? stored : [];
+  } catch (err) {
+    log.warn('Could not read mutation queue — starting empty:', err);
+    queue = [];
+  }
+}
+
+function save(): void {
+  const path = getQueuePath();
+  const tmpPath = `${path}.tmp`;
+  try {
+    writeFileSync(tmpPath, JSON.stringify(queue, null, 2), 'utf-8');
+    renameSync(tmpPath, path); // atomic, as in config.ts — a crash never loses the backlog
+  } catch (err) {
+    log.error('Could not persist mutation queue:', err);
+  }
+}
+
+// ============================================================
+// Status — pushed to every window on `sync:status`
+// ============================================================
+
+let retrying = false;
+
+export function hasPendingMutations(envId: EnvironmentId): boolean {
+  return queue.some((item) => item.envId === envId);
+}
+
+export function getSyncStatus(): SyncStatus {
+  return { pending: queue.length, retrying };
+}
+
+function broadcastStatus(): void {
+  const status = getSyncStatus();
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send('sync:status', status);
+  }
+}
+
+// ============================================================
+// Optimistic results — what the server would have answered
+// ============================================================
+
+function isQueueable(method: string, path: string): boolean {
+  const pathname = path.split('?')[0];
+  if (method === 'POST') {
+    return (
+      pathname === '/api/timer/start' ||
+      pathname === '/api/timer/stop' ||
+      pathname === '/api/entries' ||
+      pathname.startsWith('/api/timer/resume/')
+    );
+  }
+  return method === 'PATCH' && pathname.startsWith('/api/entries/');
+}
+
+function findEntry(id: string): Entry | undefined {
+  const { entry, recentEntries } = getTimerState();
+  return entry?.id === id ? entry : recentEntries.find((e) => e.id === id);
+}
+
+function buildEntry(
+  id: string,
+  fields: { description?: string; projectId?: string | null },
+  startedAt: string,
+  stoppedAt: string | null,
+): Entry {
+  const project = getTimerState().projects.find((p) => p.id === fields.projectId);
+  const durationMs = stoppedAt ? new Date(stoppedAt).getTime() - new Date(startedAt).getTime() : null;
+  const durationSeconds = durationMs === null ? null : Math.max(0, Math.floor(durationMs / 1000));
+  return {
+    id,
+    description: fields.description ?? '',
+    projectId: project?.id ?? null,
+    projectName: project?.name ?? null,
+    projectColor: project?.color ?? null,
+    clientName: project?.clientName ?? null,
+    labels: [],
+    segments: [
+      {
+        id: `${id}-seg`,
+        type: 'clocked',
+        startedAt,
+        stoppedAt,
+        durationSeconds,
+        note: null,
+        createdAt: startedAt,
+      },
+    ],
+    totalDurationSeconds: durationSeconds ?? 0,
+    isRunning: stoppedAt === null,
+    createdAt: startedAt,
+    userId: '',
+  };
+}
+
+function optimisticResult(item: QueuedMutation): unknown {
+  const pathname = item.path.split('?')[0];
+  const body = item.body ?? {};
+  const localId = `${LOCAL_ID_PREFIX}${item.id}`;
+
+  if (pathname === '/api/timer/stop') return { running: false, entry: null } satisfies TimerState;
+  if (pathname === '/api/timer/start') {
+    const entry = buildEntry(localId, body, item.createdAt, null);
+    return { running: true, entry } satisfies TimerState;
+  }
+  const resumeMatch = pathname.match(/^\/api\/timer\/resume\/(.+)$/);
+  if (resumeMatch) {
+    const source = findEntry(resumeMatch[1]);
+    const entry = buildEntry(localId, source ?? {}, item.createdAt, null);
+    return { running: true, entry } satisfies TimerState;
+  }
+  if (pathname === '/api/entries') {
+    return buildEntry(
+      localId,
+      body,
+      String(body.startedAt ?? item.createdAt),
+      String(body.stoppedAt ?? item.createdAt),
+    );
+  }
+  const entryId = pathname.slice('/api/entries/'.length);
+  return { ...findEntry(entryId), ...body, id: entryId };
+}
+
+// ============================================================
+// Queue — enqueue on network failure, replay in order once reachable
+// ============================================================
+
+function enqueue(
+  envId: EnvironmentId,
+  method: string,
+  path: string,
+  body: unknown,
+  id: string = randomUUID(),
+): ApiResult {
+  const createdAt = new Date().toISOString();
+  const fields = { ...(body as Record<string, unknown> | undefined) };
+  // Pin the time the user acted — a replay hours later must not start or stop "now"
+  const pathname = path.split('?')[0];
+  if (pathname === '/api/timer/stop') fields.stoppedAt ??= createdAt;
+  if (pathname === '/api/timer/start' || pathname.startsWith('/api/timer/resume/')) {
+    fields.startedAt ??= createdAt;
+  }
+
+  const item: QueuedMutation = {
+    id,
+    envId,
+    method,
+    path,
+    body: fields,
+    createdAt,
+    attempts: 0,
+  };
+  queue.push(item);
+  save();
+  log.info(`Queued ${method} ${path} (${queue.length} pending)`);
+
+  const data = optimisticResult(item);
+  if (envId === getActiveEnvironment()) observeApiResponse(method, path, data);
+  broadcastStatus();
+  return { data, status: 202, queued: true };
+}
+
+/** Swap a replayed entry's local id for the server's in everything still queued. */
+function remapLocalId(localId: string, serverId: string): void {
+  let changed = false;
+  for (const item of queue) {
+    if (!item.path.includes(localId)) continue;
+    item.path = item.path.replace(localId, serverId);
+    changed = true;
+  }
+  if (changed) log.debug(`Remapped ${localId} → ${serverId}`);
+}
+
+function describeMutation(item: QueuedMutation): string {
+  const pathname = item.path.split('?')[0];
+  if (pathname === '/api/timer/start') return 'Timer start';
+  if (pathname === '/api/timer/stop') return 'Timer stop';
+  if (pathname.startsWith('/api/timer/resume/')) return 'Timer resume';
+  if (pathname === '/api/entries') return 'New entry';
+  return 'Entry update';
+}
+
+// Environments whose session was rejected — their items wait for the next sign-in,
+// without holding up the other environments' queues
+const parkedEnvs = new Set<EnvironmentId>();
+
+let replaying: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleRetry(): void {
+  if (retryTimer || isDemoMode() || queue.every((item) => parkedEnvs.has(item.envId))) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    replayQueue();
+  }, RETRY_INTERVAL_MS);
+}
+
+function park(envId: EnvironmentId): void {
+  if (parkedEnvs.has(envId)) return;
+  parkedEnvs.add(envId);
+  const count = queue.filter((item) => item.envId === envId).length;
+  log.warn(`[${envId}] Session rejected — ${count} queued mutation(s) wait for sign-in`);
+  notify('syncFailed', {
+    title: 'Sign in to sync your changes',
+    body: `${count} offline change${count === 1 ? '' : 's'} will sync once you sign in again`,
+    actions: ['open'],
+  });
+}
+
+/** After a successful sign-in — replay what the rejected session left queued. */
+export function resumeParkedMutations(envId: EnvironmentId): void {
+  if (!parkedEnvs.delete(envId)) return;
+  log.info(`[${envId}] Signed in — replaying parked mutations`);
+  replayQueue();
+}
+
+async function replay(): Promise<void> {
+  for (;;) {
+    // Demo mode routes apiFetch to the mock server — replaying there would drop real changes
+    if (isDemoMode()) return;
+    // Oldest first within each environment
+    const item = queue.find((queued) => !parkedEnvs.has(queued.envId));
+    if (!item) return;
+    const result = await apiFetch(item.envId, item.path, {
+      method: item.method,
+      body: item.body,
+      idempotencyKey: item.id,
+    });
+
+    if (result.code === 'unauthorized') {
+      item.lastError = result.error;
+      save();
+      park(item.envId);
+      continue;
+    }
+
+    // Still offline or a server hiccup — keep the item and try again later. Only answers from
+    // the server count towards the cap, so a long offline stretch never drops anything.
+    const reachedServer = result.code === 'server' || result.code === 'rate_limited';
+    if (reachedServer) item.attempts++;
+    if (isTransientError(result.code) && item.attempts < MAX_SERVER_ATTEMPTS) {
+      item.lastError = result.error;
+      save();
+      retrying = reachedServer;
+      log.debug(`Replay of ${item.method} ${item.path} deferred (${result.code})`);
+      return;
+    }
+
+    queue.splice(queue.indexOf(item), 1);
+    retrying = false;
+    if (result.error) {
+      // Rejected outright (e.g. the entry was deleted elsewhere), or still failing after
+      // MAX_SERVER_ATTEMPTS — replaying again won't help
+      log.warn(`Dropped queued ${item.method} ${item.path}:`, result.error);
+      notify('syncFailed', {
+        title: `${describeMutation(item)} could not be synced`,
+        body: result.error,
+        actions: ['open'],
+      });
+    } else {
+      log.info(`Replayed ${item.method} ${item.path}`);
+      // Start/resume answer with a timer state, entry creation with the entry itself
+      const data = result.data as Partial<TimerState & Entry> | undefined;
+      const serverId = data?.entry?.id ?? data?.id;
+      if (serverId) remapLocalId(`${LOCAL_ID_PREFIX}${item.id}`, serverId);
+    }
+    save();
+    broadcastStatus();
+  }
+}
+
+/** Replay everything queued, oldest first. Concurrent calls share one run. Held in demo mode. */
+export function replayQueue(): Promise<void> {
+  if (queue.length === 0 || isDemoMode()) return Promise.resolve();
+  replaying ??= replay()
+    .catch((err) => log.error('Replay failed:', err))
+    .finally(() => {
+      replaying = null;
+      broadcastStatus();
+      scheduleRetry();
+    });
+  return replaying;
+}
+
+/**
+ * `apiFetch` for the renderer proxy and main-process mutations. Timer and entry
+ * mutations that can't reach the server — or that would overtake ones already
+ * queued — are persisted and answered optimistically. While anything is queued,
+ * GET /api/timer answers from the local view so polling doesn't undo it.
+ */
+export async function fetchOrQueue(
+  envId: EnvironmentId,
+  path: string,
+  options?: ApiRequestOptions,
+): Promise<ApiResult> {
+  const method = options?.method ?? 'GET';
+  if (isDemoMode()) return apiFetch(envId, path, options);
+
+  const pending = hasPendingMutations(envId);
+  if (method === 'GET') {
+    if (pending && path === '/api/timer') {
+      const { running, entry } = getTimerState();
+      return { data: { running, entry } satisfies TimerState, status: 200 };
+    }
+    return apiFetch(envId, path, options);
+  }
+  if (!isQueueable(method, path)) return apiFetch(envId, path, options);
+
+  if (pending) {
+    const result = enqueue(envId, method, path, options?.body);
+    replayQueue();
+    return result;
+  }
+  // Same key if it ends up queued — a timed-out request may still have landed
+  const idempotencyKey = randomUUID();
+  const result = await apiFetch(envId, path, { ...options, idempotencyKey });
+  if (result.code !== 'network' && result.code !== 'timeout') return result;
+  const queued = enqueue(envId, method, path, options?.body, idempotencyKey);
+  scheduleRetry();
+  return queued;
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+let unsubscribe: (() => void) | null = null;
+
+export function initMutationQueue(): void {
+  load();
+  if (queue.length > 0) log.info(`${queue.length} queued mutation(s) from last session`);
+  unsubscribe?.();
+  unsubscribe = onConnectivityChange(({ online }) => {
+    if (online) replayQueue();
+  });
+  replayQueue();
+}
+
+export function disposeMutationQueue(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+}
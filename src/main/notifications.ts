@@ -0,0 +1,227 @@
+import { Notification } from 'electron';
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+import { getAuthState } from './auth';
+import { getActiveEnvironment, isDemoMode } from './api';
+import { getTimerState, getElapsedSeconds, formatDuration } from './timer-state';
+
+const log = createLogger('notify');
+
+// ============================================================
+// Types
+// ============================================================
+
+export type NotificationCategory = 'noTimer' | 'afterHours' | 'longTimer' | 'syncFailed';
+
+export type NotificationAction = 'startDefault' | 'stop' | 'open';
+
+export interface WorkSchedule {
+  days: number[]; // 0 = Sunday … 6 = Saturday
+  start: string; // HH:MM, local time
+  end: string; // HH:MM — earlier than start means the workday crosses midnight
+}
+
+export interface NotificationSettings {
+  categories: Record<NotificationCategory, boolean>;
+  schedule: WorkSchedule;
+  snoozedUntil: number | null; // ms timestamp
+}
+
+const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'noTimer',
+  'afterHours',
+  'longTimer',
+  'syncFailed',
+];
+
+const ACTION_LABELS: Record<NotificationAction, string> = {
+  startDefault: 'Start Timer',
+  stop: 'Stop',
+  open: 'Open',
+};
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  categories: { noTimer: true, afterHours: true, longTimer: true, syncFailed: true },
+  schedule: { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' },
+  snoozedUntil: null,
+};
+
+const CHECK_INTERVAL_MS = 60_000;
+const NO_TIMER_REMINDER_INTERVAL_MS = 30 * 60_000;
+
+// ============================================================
+// Settings — `notifications` in config.json
+// ============================================================
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function sanitizeSchedule(schedule: Partial<WorkSchedule> | undefined): WorkSchedule {
+  const fallback = DEFAULT_SETTINGS.schedule;
+  return {
+    days: Array.isArray(schedule?.days)
+      ? [...new Set(schedule.days.filter((d) => Number.isInteger(d) && d >= 0 && d <= 6))].sort()
+      : fallback.days,
+    start: schedule?.start && TIME_PATTERN.test(schedule.start) ? schedule.start : fallback.start,
+    end: schedule?.end && TIME_PATTERN.test(schedule.end) ? schedule.end : fallback.end,
+  };
+}
+
+export function getNotificationSettings(): NotificationSettings {
+  const stored = getConfig().notifications ?? {};
+  const categories = { ...DEFAULT_SETTINGS.categories };
+  for (const category of NOTIFICATION_CATEGORIES) {
+    const value = stored.categories?.[category];
+    if (typeof value === 'boolean') categories[category] = value;
+  }
+  const snoozedUntil =
+    typeof stored.snoozedUntil === 'number' && stored.snoozedUntil > Date.now()
+      ? stored.snoozedUntil
+      : null;
+  return { categories, schedule: sanitizeSchedule(stored.schedule), snoozedUntil };
+}
+
+export function setNotificationSettings(
+  patch: Partial<Omit<NotificationSettings, 'snoozedUntil'>>,
+): NotificationSettings {
+  const current = getNotificationSettings();
+  const settings: NotificationSettings = {
+    categories: { ...current.categories, ...patch.categories },
+    schedule: sanitizeSchedule({ ...current.schedule, ...patch.schedule }),
+    snoozedUntil: current.snoozedUntil,
+  };
+  setConfig({ notifications: settings });
+  log.info('Notification settings updated', settings);
+  return settings;
+}
+
+/** Silence every category until `until` (ms timestamp); null resumes immediately. */
+export function snoozeNotifications(until: number | null): NotificationSettings {
+  const settings = { ...getNotificationSettings(), snoozedUntil: until };
+  setConfig({ notifications: settings });
+  log.info(until ? `Snoozed until ${new Date(until).toISOString()}` : 'Snooze cleared');
+  return settings;
+}
+
+function parseMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+export function isWithinWorkHours(date: Date = new Date(), schedule?: WorkSchedule): boolean {
+  const { days, start, end } = schedule ?? getNotificationSettings().schedule;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const startMin = parseMinutes(start);
+  const endMin = parseMinutes(end);
+
+  if (startMin <= endMin) {
+    return days.includes(date.getDay()) && minutes >= startMin && minutes < endMin;
+  }
+  // Overnight shift — the early-morning part belongs to the previous day's shift
+  if (minutes >= startMin) return days.includes(date.getDay());
+  if (minutes < endMin) return days.includes((date.getDay() + 6) % 7);
+  return false;
+}
+
+// ============================================================
+// Delivery
+// ============================================================
+
+let actionHandlers: Record<NotificationAction, () => void> | null = null;
+// Electron drops event handlers of garbage-collected notifications — hold them until closed
+const active = new Set<Notification>();
+
+export interface NotifyOptions {
+  title: string;
+  body: string;
+  actions?: NotificationAction[];
+}
+
+/**
+ * Show a notification unless its category is off or notifications are snoozed.
+ * Action buttons render on macOS; elsewhere clicking the notification opens the popup.
+ */
+export function notify(category: NotificationCategory, options: NotifyOptions): boolean {
+  const settings = getNotificationSettings();
+  if (!settings.categories[category]) return false;
+  if (settings.snoozedUntil) return false;
+  if (!Notification.isSupported()) return false;
+
+  const actions = options.actions ?? [];
+  const notification = new Notification({
+    title: options.title,
+    body: options.body,
+    actions: actions.map((action) => ({ type: 'button' as const, text: ACTION_LABELS[action] })),
+  });
+  notification.on('click', () => actionHandlers?.open());
+  notification.on('action', (_event, index) => {
+    const action = actions[index];
+    log.info(`Action ${action} from ${category} notification`);
+    if (action) actionHandlers?.[action]();
+  });
+  notification.on('close', () => active.delete(notification));
+  active.add(notification);
+  notification.show();
+  log.info(`Shown ${category}: ${options.title}`);
+  return true;
+}
+
+// ============================================================
+// Reminders — periodic checks against the timer model and work schedule
+// ============================================================
+
+let checkTimer: ReturnType<typeof setInterval> | null = null;
+let lastNoTimerReminderAt = 0;
+let afterHoursEntryId: string | null = null;
+
+function describe(description: string): string {
+  return description ? `“${description}”` : 'Your timer';
+}
+
+function checkReminders(): void {
+  const envId = getActiveEnvironment();
+  if (!isDemoMode() && !getAuthState(envId).isAuthenticated) return;
+
+  const { running, entry, updatedAt } = getTimerState();
+  if (updatedAt === 0) return; // timer state not loaded yet
+  const now = new Date();
+  const working = isWithinWorkHours(now);
+
+  if (running && entry) {
+    // The next reminder comes a full interval after this timer stops
+    lastNoTimerReminderAt = now.getTime();
+    if (!working && afterHoursEntryId !== entry.id) {
+      afterHoursEntryId = entry.id;
+      notify('afterHours', {
+        title: 'Timer still running',
+        body: `${describe(entry.description)} is still running after hours (${formatDuration(getElapsedSeconds(entry))}).`,
+        actions: ['stop', 'open'],
+      });
+    }
+    return;
+  }
+
+  afterHoursEntryId = null;
+  if (working && now.getTime() - lastNoTimerReminderAt >= NO_TIMER_REMINDER_INTERVAL_MS) {
+    lastNoTimerReminderAt = now.getTime();
+    notify('noTimer', {
+      title: 'No timer running',
+      body: "You're within work hours but nothing is being tracked.",
+      actions: ['startDefault', 'open'],
+    });
+  }
+}
+
+export function initNotifications(handlers: Record<NotificationAction, () => void>): void {
+  actionHandlers = handlers;
+  lastNoTimerReminderAt = Date.now(); // no reminder straight after launch
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = setInterval(checkReminders, CHECK_INTERVAL_MS);
+}
+
+export function disposeNotifications(): void {
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = null;
+  actionHandlers = null;
+  for (const notification of active) notification.close();
+  active.clear();
+}
@@ -0,0 +1,230 @@
+import { app, powerMonitor } from 'electron';
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+import { getTimerState } from './timer-state';
+import { stopTimer, refreshTimer } from './timer-actions';
+import { reportAwayPeriod, type IdleReason } from './idle';
+
+const log = createLogger('power');
+
+// ============================================================
+// Types
+// ============================================================
+
+export type PowerEvent = 'suspend' | 'lock' | 'shutdown';
+
+/** keep = ignore the event, stop = stop the timer at the event time, ask = prompt on return. */
+export type PowerPolicy = 'keep' | 'stop' | 'ask';
+
+export type PowerPolicies = Record<PowerEvent, PowerPolicy>;
+
+const POWER_EVENTS: PowerEvent[] = ['suspend', 'lock', 'shutdown'];
+const POWER_POLICIES: PowerPolicy[] = ['keep', 'stop', 'ask'];
+
+const DEFAULT_POLICIES: PowerPolicies = {
+  suspend: 'ask',
+  lock: 'keep',
+  shutdown: 'stop',
+};
+
+const SHUTDOWN_STOP_TIMEOUT_MS = 3000;
+const RETRY_DELAY_MS = 10_000;
+const MAX_RETRIES = 6;
+
+// ============================================================
+// Persistence — `powerPolicies` in config.json
+// ============================================================
+
+export function getPowerPolicies(): PowerPolicies {
+  const stored = getConfig().powerPolicies ?? {};
+  const policies = { ...DEFAULT_POLICIES };
+  for (const event of POWER_EVENTS) {
+    if (stored[event] && POWER_POLICIES.includes(stored[event])) policies[event] = stored[event];
+  }
+  return policies;
+}
+
+export function setPowerPolicy(event: PowerEvent, policy: PowerPolicy): void {
+  if (!POWER_EVENTS.includes(event) || !POWER_POLICIES.includes(policy)) return;
+  setConfig({ powerPolicies: { ...getPowerPolicies(), [event]: policy } });
+  log.info(`Policy on ${event} set to`, policy);
+}
+
+// ============================================================
+// Away tracking — what was running when the machine went away
+// ============================================================
+
+interface AwayMark {
+  entryId: string;
+  reason: IdleReason;
+  at: number; // ms timestamp of the event
+}
+
+let pendingStop: AwayMark | null = null; // stop requested but not confirmed by the server
+let pendingAsk: AwayMark | null = null; // prompt on return
+let locked = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let quitting = false;
+
+function markAway(event: PowerEvent, reason: IdleReason): void {
+  const { running, entry } = getTimerState();
+  if (!running || !entry) return;
+  const policy = getPowerPolicies()[event];
+  const mark: AwayMark = { entryId: entry.id, reason, at: Date.now() };
+  log.info(`${reason} while timer running — policy: ${policy}`);
+
+  if (policy === 'stop') {
+    pendingStop ??= mark;
+    stopAtMark().catch(() => {}); // network may already be down — retried on return
+  } else if (policy === 'ask') {
+    pendingAsk ??= mark; // earliest event wins (lock, then sleep)
+  }
+}
+
+/** Stop the marked entry, backdated — only if it's still the one running on the server. */
+async function stopAtMark(): Promise<void> {
+  const mark = pendingStop;
+  if (!mark) return;
+  const { running, entry } = getTimerState();
+  if (!running || entry?.id !== mark.entryId) {
+    pendingStop = null;
+    return;
+  }
+  const result = await stopTimer({ stoppedAt: new Date(mark.at).toISOString() });
+  if (result.error) throw new Error(result.error);
+  pendingStop = null;
+}
+
+/** On wake/unlock: refresh from the server, then settle any pending stop or prompt. */
+async function settleAway(): Promise<void> {
+  if (!pendingStop && !pendingAsk) return;
+  await refreshTimer();
+  await stopAtMark();
+
+  const mark = pendingAsk;
+  if (!mark || locked) return; // ask once the user is actually back
+  pendingAsk = null;
+  const { running, entry } = getTimerState();
+  if (!running || entry?.id !== mark.entryId) return;
+  reportAwayPeriod({
+    entryId: mark.entryId,
+    reason: mark.reason,
+    startedAt: new Date(mark.at).toISOString(),
+    endedAt: new Date().toISOString(),
+  });
+}
+
+function settleWithRetry(attempt = 0): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  settleAway().catch((err) => {
+    if (attempt >= MAX_RETRIES) {
+      log.warn('Giving up on settling away time:', err);
+      pendingStop = null;
+      pendingAsk = null;
+      return;
+    }
+    // Network usually lags a few seconds behind wake
+    log.debug(`Settling away time failed (attempt ${attempt + 1}), retrying`);
+    retryTimer = setTimeout(() => settleWithRetry(attempt + 1), RETRY_DELAY_MS);
+  });
+}
+
+// ============================================================
+// Shutdown — stop before quitting, or remember to ask on next launch
+// ============================================================
+
+function handleQuit(event: { preventDefault: () => void }): void {
+  if (quitting) return;
+  const { running, entry } = getTimerState();
+  if (!running || !entry) return;
+  const policy = getPowerPolicies().shutdown;
+  const at = new Date().toISOString();
+
+  if (policy === 'ask') {
+    setConfig({ pendingShutdown: { entryId: entry.id, at } });
+    log.info('Quitting with timer running — will ask on next launch');
+    return;
+  }
+  if (policy !== 'stop') return;
+
+  // Hold the quit until the stop lands (or times out)
+  event.preventDefault();
+  quitting = true;
+  log.info('Quitting with timer running — stopping at', at);
+  const timeout = new Promise((resolve) => setTimeout(resolve, SHUTDOWN_STOP_TIMEOUT_MS));
+  Promise.race([stopTimer({ stoppedAt: at }), timeout])
+    .catch((err) => log.warn('Stop on quit failed:', err))
+    .finally(() => app.quit());
+}
+
+function isCancelable(value: unknown): value is { preventDefault: () => void } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'preventDefault' in value &&
+    typeof value.preventDefault === 'function'
+  );
+}
+
+/** The typings declare no arguments for `shutdown`, but Electron passes a cancelable event. */
+function handleShutdown(...args: unknown[]): void {
+  const [event] = args;
+  handleQuit(isCancelable(event) ? event : { preventDefault: () => {} });
+}
+
+/** A quit with the "ask" policy left a mark — prompt once the timer state is known. */
+function checkPendingShutdown(): void {
+  const mark = getConfig().pendingShutdown;
+  if (!mark) return;
+  setConfig({ pendingShutdown: null });
+
+  refreshTimer()
+    .then(() => {
+      const { running, entry } = getTimerState();
+      if (!running || entry?.id !== mark.entryId) return;
+      reportAwayPeriod({
+        entryId: mark.entryId,
+        reason: 'shutdown',
+        startedAt: mark.at,
+        endedAt: new Date().toISOString(),
+      });
+    })
+    .catch((err) => log.warn('Pending shutdown check failed:', err));
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+export function initPowerMonitor(): void {
+  powerMonitor.on('suspend', () => markAway('suspend', 'suspend'));
+  powerMonitor.on('resume', () => {
+    log.info('System resumed');
+    settleWithRetry();
+  });
+
+  // lock-screen / unlock-screen only fire on macOS and Windows
+  powerMonitor.on('lock-screen', () => {
+    locked = true;
+    markAway('lock', 'lock');
+  });
+  powerMonitor.on('unlock-screen', () => {
+    locked = false;
+    log.info('Screen unlocked');
+    settleWithRetry();
+  });
+
+  // OS shutdown (macOS/Linux) — preventDefault delays it until app.quit() runs
+  powerMonitor.on('shutdown', handleShutdown);
+  app.on('before-quit', handleQuit);
+
+  checkPendingShutdown();
+}
+
+export function disposePowerMonitor(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  pendingStop = null;
+  pendingAsk = null;
+}
@@ -0,0 +1,196 @@
+import { BrowserWindow, net } from 'electron';
+import { createLogger } from './logger';
+import { getAccessToken } from './auth';
+import { getEnvironment } from './environments';
+import { getActiveEnvironment, isDemoMode } from './api';
+import type { ServerEvent } from './api-types';
+import { onDemoEvent } from './demo/mock-server';
+import { observeApiResponse } from './timer-state';
+import { refreshEntries } from './timer-actions';
+import { hasPendingMutations } from './mutation-queue';
+import { onConnectivityChange } from './connectivity';
+
+const log = createLogger('push');
+
+// ============================================================
+// Server push — /api/events (SSE) proxied to the renderer as `push:event`.
+// Polling stays on as a slow safety net while connected, full speed while not.
+// ============================================================
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+const STALL_TIMEOUT_MS = 90_000; // the server sends a heartbeat comment every 30s
+const STALL_CHECK_INTERVAL_MS = 15_000;
+
+let connected = false;
+let generation = 0; // bumped on every (re)connect — stale streams check it and bow out
+let controller: AbortController | null = null;
+let unsubscribeDemo: (() => void) | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let stallTimer: ReturnType<typeof setInterval> | null = null;
+let attempt = 0;
+let lastActivityAt = 0;
+
+export function isPushConnected(): boolean {
+  return connected;
+}
+
+function setConnected(value: boolean): void {
+  if (connected === value) return;
+  connected = value;
+  log.info(value ? 'Push connected' : 'Push disconnected');
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send('push:status', value);
+  }
+}
+
+// ============================================================
+// Events
+// ============================================================
+
+function handleEvent(event: ServerEvent): void {
+  const envId = getActiveEnvironment();
+  log.debug(`Event ${event.type}`);
+  if (event.type === 'timer.changed') {
+    // Queued offline mutations haven't reached the server yet — its view is behind ours
+    if (hasPendingMutations(envId)) return;
+    observeApiResponse('GET', '/api/timer', event.data);
+  } else if (event.type === 'entries.changed') {
+    refreshEntries().catch((err) => log.warn('Entries refresh failed:', err));
+  } else {
+    return;
+  }
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send('push:event', event);
+  }
+}
+
+/** Split an SSE stream into `event:`/`data:` frames; comments (heartbeats) only count as activity. */
+async function readStream(body: ReadableStream<Uint8Array>, streamGeneration: number): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (streamGeneration === generation) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    lastActivityAt = Date.now();
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let type = 'message';
+      const data: string[] = [];
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) type = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length === 0) continue;
+      try {
+        handleEvent({ type, data: JSON.parse(data.join('\n')) } as ServerEvent);
+      } catch (err) {
+        log.warn(`Malformed ${type} event:`, err);
+      }
+    }
+  }
+}
+
+// ============================================================
+// Connection — reconnect with exponential backoff
+// ============================================================
+
+function scheduleReconnect(): void {
+  if (reconnectTimer) return;
+  const delay = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** attempt) + Math.random() * 1000;
+  attempt++;
+  log.debug(`Reconnecting in ${Math.round(delay / 1000)}s`);
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+}
+
+function disconnect(): void {
+  generation++;
+  controller?.abort();
+  controller = null;
+  unsubscribeDemo?.();
+  unsubscribeDemo = null;
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  setConnected(false);
+}
+
+async function connect(): Promise<void> {
+  disconnect();
+  const streamGeneration = generation;
+
+  if (isDemoMode()) {
+    unsubscribeDemo = onDemoEvent(handleEvent);
+    setConnected(true);
+    return;
+  }
+
+  const envId = getActiveEnvironment();
+  const token = await getAccessToken(envId);
+  if (streamGeneration !== generation) return;
+  if (!token) return; // signed out — restartPush() runs again on sign-in
+
+  controller = new AbortController();
+  try {
+    const res = await net.fetch(`${getEnvironment(envId).apiBaseUrl}/api/events`, {
+      headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+      signal: controller.signal,
+    });
+    if (!res.ok || !res.body) throw new Error(`${res.status} ${res.statusText}`);
+    attempt = 0;
+    lastActivityAt = Date.now();
+    setConnected(true);
+    await readStream(res.body, streamGeneration);
+    throw new Error('Stream closed by server');
+  } catch (err) {
+    if (streamGeneration !== generation) return; // replaced or disposed — not a failure
+    log.warn('Push stream failed:', err instanceof Error ? err.message : err);
+    setConnected(false);
+    scheduleReconnect();
+  }
+}
+
+function checkStall(): void {
+  if (!connected || isDemoMode() || Date.now() - lastActivityAt < STALL_TIMEOUT_MS) return;
+  log.warn('Push stream stalled — reconnecting');
+  connect();
+}
+
+/** Reconnect from scratch — after sign-in/out, environment switches and demo mode toggles. */
+export function restartPush(): void {
+  attempt = 0;
+  connect();
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+let unsubscribeConnectivity: (() => void) | null = null;
+
+export function initPush(): void {
+  unsubscribeConnectivity?.();
+  unsubscribeConnectivity = onConnectivityChange(({ online }) => {
+    if (online && !connected) restartPush(); // skip whatever backoff is left
+  });
+  if (stallTimer) clearInterval(stallTimer);
+  stallTimer = setInterval(checkStall, STALL_CHECK_INTERVAL_MS);
+  restartPush();
+}
+
+export function disposePush(): void {
+  unsubscribeConnectivity?.();
+  unsubscribeConnectivity = null;
+  if (stallTimer) clearInterval(stallTimer);
+  stallTimer = null;
+  disconnect();
+}
@@ -0,0 +1,161 @@
+import { globalShortcut } from 'electron';
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+
+const log = createLogger('shortcuts');
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ShortcutAction = 'togglePopup' | 'startStop' | 'resumeLast' | 'quickEntry';
+
+/** Electron accelerator per action — null disables the shortcut. */
+export type ShortcutMap = Record<ShortcutAction, string | null>;
+
+export type ShortcutStatus = 'registered' | 'disabled' | 'unavailable' | 'invalid';
+
+export interface ShortcutsState {
+  shortcuts: ShortcutMap;
+  status: Record<ShortcutAction, ShortcutStatus>;
+}
+
+export interface SetShortcutResult extends ShortcutsState {
+  error?: string;
+}
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = ['togglePopup', 'startStop', 'resumeLast', 'quickEntry'];
+
+const ACTION_LABELS: Record<ShortcutAction, string> = {
+  togglePopup: 'Toggle Popup',
+  startStop: 'Start / Stop',
+  resumeLast: 'Resume Last Entry',
+  quickEntry: 'Quick Entry',
+};
+
+const DEFAULT_SHORTCUTS: ShortcutMap = {
+  togglePopup: 'CommandOrControl+Shift+P',
+  startStop: 'CommandOrControl+Shift+T',
+  resumeLast: null,
+  quickEntry: null,
+};
+
+// ============================================================
+// Persistence — `shortcuts` in config.json (only overrides are meaningful)
+// ============================================================
+
+function loadShortcuts(): ShortcutMap {
+  const stored = getConfig().shortcuts ?? {};
+  const shortcuts = { ...DEFAULT_SHORTCUTS };
+  for (const action of SHORTCUT_ACTIONS) {
+    if (action in stored) shortcuts[action] = stored[action] ?? null;
+  }
+  return shortcuts;
+}
+
+function saveShortcuts(shortcuts: ShortcutMap): void {
+  setConfig({ shortcuts });
+}
+
+/** Normalise for comparison — CmdOrCtrl and CommandOrControl are the same accelerator. */
+function normalizeAccelerator(accelerator: string): string {
+  return accelerator
+    .split('+')
+    .map((part) => part.trim().toLowerCase())
+    .map((part) => (part === 'cmdorctrl' ? 'commandorcontrol' : part === 'cmd' ? 'command' : part))
+    .sort()
+    .join('+');
+}
+
+// ============================================================
+// Registration
+// ============================================================
+
+let handlers: Record<ShortcutAction, () => void> | null = null;
+let current: ShortcutsState | null = null;
+let suspended = false;
+
+function registerOne(accelerator: string | null, handler: () => void): ShortcutStatus {
+  if (!accelerator) return 'disabled';
+  try {
+    return globalShortcut.register(accelerator, handler) ? 'registered' : 'unavailable';
+  } catch {
+    return 'invalid';
+  }
+}
+
+function applyShortcuts(shortcuts: ShortcutMap): ShortcutsState {
+  globalShortcut.unregisterAll();
+  if (suspended && current) {
+    // Keep reporting the last real status while recording
+    current = { shortcuts, status: current.status };
+    return current;
+  }
+  const status = {} as Record<ShortcutAction, ShortcutStatus>;
+  for (const action of SHORTCUT_ACTIONS) {
+    status[action] = handlers ? registerOne(shortcuts[action], handlers[action]) : 'disabled';
+    if (status[action] === 'unavailable' || status[action] === 'invalid') {
+      log.warn(`Could not register ${action} (${shortcuts[action]}):`, status[action]);
+    }
+  }
+  current = { shortcuts, status };
+  return current;
+}
+
+export function initShortcuts(actionHandlers: Record<ShortcutAction, () => void>): void {
+  handlers = actionHandlers;
+  const { status } = applyShortcuts(loadShortcuts());
+  log.info('Global shortcuts registered', status);
+}
+
+export function getShortcuts(): ShortcutsState {
+  return current ?? applyShortcuts(loadShortcuts());
+}
+
+/**
+ * Change one action's accelerator. Rejected (and nothing persisted) when another action
+ * already uses it, the accelerator can't be parsed, or another app holds it.
+ */
+export function setShortcut(action: ShortcutAction, accelerator: string | null): SetShortcutResult {
+  suspended = false; // saving ends a recording session
+  const previous = current?.shortcuts ?? loadShortcuts();
+
+  if (accelerator) {
+    const normalized = normalizeAccelerator(accelerator);
+    const clash = SHORTCUT_ACTIONS.find(
+      (other) =>
+        other !== action &&
+        previous[other] != null &&
+        normalizeAccelerator(previous[other]!) === normalized,
+    );
+    if (clash) {
+      return { ...applyShortcuts(previous), error: `Already used by ${ACTION_LABELS[clash]}` };
+    }
+  }
+
+  const next = { ...previous, [action]: accelerator };
+  const state = applyShortcuts(next);
+  const status = state.status[action];
+
+  if (status === 'unavailable' || status === 'invalid') {
+    const error = status === 'invalid' ? 'Not a valid shortcut' : 'In use by another application';
+    return { ...applyShortcuts(previous), error };
+  }
+
+  saveShortcuts(next);
+  log.info(`Shortcut ${action} set to`, accelerator ?? 'none');
+  return state;
+}
+
+/** Release every global shortcut while the settings UI records a new key combination. */
+export function suspendShortcuts(value: boolean): void {
+  if (suspended === value) return;
+  suspended = value;
+  applyShortcuts(current?.shortcuts ?? loadShortcuts());
+}
+
+export function disposeShortcuts(): void {
+  globalShortcut.unregisterAll();
+  handlers = null;
+  current = null;
+}
@@ -0,0 +1,90 @@
+import { BrowserWindow } from 'electron';
+import { createLogger } from './logger';
+import { apiFetch, getActiveEnvironment, isDemoMode, type ApiResult } from './api';
+import { getAuthState } from './auth';
+import { notify } from './notifications';
+import { fetchOrQueue } from './mutation-queue';
+
+const log = createLogger('timer');
+
+// ============================================================
+// Timer mutations initiated by the main process (tray menu, shortcuts, ...)
+// ============================================================
+// Requests go through the same proxy as the renderer, so demo mode and the
+// timer-state feed work unchanged. On success the renderer is told to refetch;
+// offline, the mutation is queued and the optimistic result stands in.
+
+function notifyRenderer(): void {
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send('timer:changed');
+  }
+}
+
+async function mutate(
+  label: string,
+  failure: string,
+  path: string,
+  body?: unknown,
+): Promise<ApiResult> {
+  const envId = getActiveEnvironment();
+  const result = await fetchOrQueue(envId, path, { method: 'POST', body });
+  if (result.error) {
+    log.warn(`${label} failed:`, result.error);
+    notify('syncFailed', { title: failure, body: result.error, actions: ['open'] });
+  } else if (result.queued) {
+    log.info(`${label} (queued until online)`);
+    notifyRenderer();
+  } else {
+    log.info(label);
+    notifyRenderer();
+    refreshEntries().catch((err) => log.warn('Entries refresh failed:', err));
+  }
+  return result;
+}
+
+export function startTimer(params: { description?: string; projectId?: string | null }): Promise<ApiResult> {
+  return mutate('Timer started', 'Could not start timer', '/api/timer/start', {
+    description: params.description,
+    projectId: params.projectId ?? undefined,
+  });
+}
+
+/** Stop the running timer — `stoppedAt` backdates the stop (sleep, lock, quit). */
+export function stopTimer(params: { stoppedAt?: string } = {}): Promise<ApiResult> {
+  return mutate(
+    'Timer stopped',
+    'Could not stop timer',
+    '/api/timer/stop',
+    params.stoppedAt ? { stoppedAt: params.stoppedAt } : undefined,
+  );
+}
+
+/** The id is encoded — it may come from a deep link, the control socket or the local API. */
+export function resumeTimer(entryId: string): Promise<ApiResult> {
+  return mutate(
+    'Timer resumed',
+    'Could not resume timer',
+    `/api/timer/resume/${encodeURIComponent(entryId)}`,
+  );
+}
+
+/** Pull /api/timer through the proxy — no-op without a session, throws when unreachable. */
+export async function refreshTimer(): Promise<void> {
+  const envId = getActiveEnvironment();
+  if (!isDemoMode() && !getAuthState(envId).isAuthenticated) return;
+  const result = await fetchOrQueue(envId, '/api/timer');
+  if (result.error) throw new Error(result.error);
+}
+
+/** Refetch the entries list + stats so menus built from timer-state stay current. */
+export async function refreshEntries(): Promise<void> {
+  const envId = getActiveEnvironment();
+  const today = new Date();
+  const from = new Date(today);
+  from.setDate(from.getDate() - 6); // 7 days including today — matches the renderer
+  const range = `from=${from.toISOString().split('T')[0]}&to=${today.toISOString().split('T')[0]}`;
+  await Promise.all([
+    apiFetch(envId, `/api/entries?${range}`),
+    apiFetch(envId, '/api/stats'),
+  ]);
+}
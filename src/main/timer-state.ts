@@ -0,0 +1,173 @@
+import { createLogger } from './logger';
+import type { DayGroup, Entry, ProjectOption, Stats, TimerState } from './api-types';
+
+const log = createLogger('timer');
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface TimerSnapshot {
+  running: boolean;
+  entry: Entry | null;
+  todaySeconds: number | null;
+  recentEntries: Entry[]; // newest first, from the last /api/entries response
+  projects: ProjectOption[];
+  updatedAt: number; // ms timestamp of the last server-confirmed timer update (0 = never)
+  entriesUpdatedAt: number; // same, for recentEntries/projects
+}
+
+export type TimerStateListener = (state: TimerSnapshot) => void;
+
+// ============================================================
+// State — lightweight mirror of the server timer, fed by API responses
+// ============================================================
+
+const EMPTY_STATE: TimerSnapshot = {
+  running: false,
+  entry: null,
+  todaySeconds: null,
+  recentEntries: [],
+  projects: [],
+  updatedAt: 0,
+  entriesUpdatedAt: 0,
+};
+
+let state: TimerSnapshot = EMPTY_STATE;
+const listeners = new Set<TimerStateListener>();
+
+function update(patch: Partial<TimerSnapshot>): void {
+  const prev = state;
+  state = { ...state, ...patch };
+  if (prev.running !== state.running || prev.entry?.id !== state.entry?.id) {
+    log.debug('Timer state changed', { running: state.running, entryId: state.entry?.id ?? null });
+  }
+  for (const listener of listeners) listener(state);
+}
+
+export function getTimerState(): TimerSnapshot {
+  return state;
+}
+
+export function setTimerState(timer: TimerState): void {
+  update({
+    running: timer.running && timer.entry != null,
+    entry: timer.entry,
+    updatedAt: Date.now(),
+  });
+}
+
+/** Seed from the on-disk cache at startup — `updatedAt` stays 0 so the server is still asked. */
+export function hydrateTimerState(cached: {
+  timer: TimerState | null;
+  stats: Stats | null;
+  entries: DayGroup[] | null;
+  projects: ProjectOption[] | null;
+}): void {
+  update({
+    running: (cached.timer?.running ?? false) && cached.timer?.entry != null,
+    entry: cached.timer?.entry ?? null,
+    todaySeconds: cached.stats?.todaySeconds ?? null,
+    recentEntries: cached.entries ? flattenEntries(cached.entries) : [],
+    projects: cached.projects ?? [],
+    updatedAt: 0,
+    entriesUpdatedAt: 0,
+  });
+}
+
+export function resetTimerState(): void {
+  state = EMPTY_STATE;
+  for (const listener of listeners) listener(state);
+}
+
+/** Subscribe to timer changes. Returns an unsubscribe function. */
+export function onTimerStateChange(listener: TimerStateListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================
+// Feed — inspect successful API responses flowing through the proxy
+// ============================================================
+
+export function observeApiResponse(method: string, path: string, data: unknown): void {
+  const pathname = path.split('?')[0];
+  // An empty 2xx body says nothing about the result — except for a stop, which needs no body
+  if (data == null && !(method === 'POST' && pathname === '/api/timer/stop')) return;
+
+  if (method === 'GET') {
+    if (pathname === '/api/timer') {
+      setTimerState(data as TimerState);
+    } else if (pathname === '/api/stats') {
+      update({ todaySeconds: (data as Stats).todaySeconds });
+    } else if (pathname === '/api/entries') {
+      update({ recentEntries: flattenEntries(data as DayGroup[]), entriesUpdatedAt: Date.now() });
+    } else if (pathname === '/api/projects') {
+      update({ projects: data as ProjectOption[], entriesUpdatedAt: Date.now() });
+    }
+    return;
+  }
+
+  if (method === 'POST') {
+    if (pathname === '/api/timer/stop') {
+      update({ running: false, entry: null, updatedAt: Date.now() });
+    } else if (pathname === '/api/timer/start' || pathname.startsWith('/api/timer/resume/')) {
+      setTimerState(data as TimerState);
+    }
+    return;
+  }
+
+  if (method === 'PATCH') {
+    const match = pathname.match(/^\/api\/entries\/(.+)$/);
+    if (match && state.entry?.id === match[1] && data && typeof data === 'object') {
+      update({ entry: { ...state.entry, ...(data as Partial<Entry>) } });
+    }
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function flattenEntries(days: DayGroup[]): Entry[] {
+  return days
+    .flatMap((day) => day.entries)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/** Completed segment durations plus the open clocked segment, in whole seconds. */
+export function getElapsedSeconds(entry: Entry, now: number = Date.now()): number {
+  let total = 0;
+  for (const segment of entry.segments) {
+    if (segment.durationSeconds != null) {
+      total += segment.durationSeconds;
+    } else if (segment.type === 'clocked' && segment.startedAt && !segment.stoppedAt) {
+      total += Math.max(0, (now - new Date(segment.startedAt).getTime()) / 1000);
+    }
+  }
+  return Math.floor(total);
+}
+
+/** Most recent entries, one per description + project pair, excluding the running entry. */
+export function getDistinctRecentEntries(limit: number): Entry[] {
+  const seen = new Set<string>();
+  const result: Entry[] = [];
+  for (const entry of state.recentEntries) {
+    if (entry.isRunning || entry.id === state.entry?.id) continue;
+    const key = `${entry.description.trim().toLowerCase()}|${entry.projectId ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(entry);
+    if (result.length >= limit) break;
+  }
+  return result;
+}
+
+export function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m`;
+  return `${m}m`;
+}
@@ -0,0 +1,129 @@
+import { app, nativeImage, nativeTheme, type NativeImage } from 'electron';
+import { join } from 'path';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type TrayIconState = 'idle' | 'running' | 'offline' | 'signed-out';
+
+// ============================================================
+// Base icon — platform/theme specific PNG from resources/
+// ============================================================
+
+export function getTrayIconName(): string {
+  if (process.platform === 'darwin') return 'trayTemplate.png';
+  if (process.platform === 'win32') {
+    // Windows: detect taskbar theme and use appropriate icon
+    return nativeTheme.shouldUseDarkColors ? 'trayLight.png' : 'trayDark.png';
+  }
+  // Linux: GNOME/KDE panels are dark across all major distros
+  return 'trayLight.png';
+}
+
+function getResourceDir(): string {
+  return app.isPackaged ? process.resourcesPath : join(__dirname, '../../resources');
+}
+
+// ============================================================
+// Badge composition
+// ============================================================
+// Variants are drawn onto the base bitmap instead of shipping extra PNGs:
+//   running    → solid dot, bottom-right
+//   offline    → hollow ring, bottom-right
+//   signed-out → whole icon dimmed, no badge
+// macOS template images only honour alpha, so badge colour is ignored there and
+// the knockout gap around the badge keeps it legible in the menu bar.
+
+type Rgb = [number, number, number];
+
+const BADGE_COLORS: Record<'running' | 'offline', Rgb> = {
+  running: [0x00, 0xd4, 0xaa], // brand teal
+  offline: [0xea, 0xb3, 0x08], // banner amber
+};
+
+const SIGNED_OUT_OPACITY = 0.45;
+
+/** Blend a premultiplied BGRA pixel towards `rgb` at `coverage` (0 = erase to transparent). */
+function paintPixel(buf: Buffer, i: number, rgb: Rgb | null, coverage: number): void {
+  const keep = 1 - coverage;
+  const [r, g, b] = rgb ?? [0, 0, 0];
+  const a = rgb ? 255 : 0;
+  buf[i] = Math.round(b * coverage + buf[i] * keep);
+  buf[i + 1] = Math.round(g * coverage + buf[i + 1] * keep);
+  buf[i + 2] = Math.round(r * coverage + buf[i + 2] * keep);
+  buf[i + 3] = Math.round(a * coverage + buf[i + 3] * keep);
+}
+
+function composeBitmap(
+  bitmap: Buffer,
+  width: number,
+  height: number,
+  state: TrayIconState,
+): Buffer {
+  const buf = Buffer.from(bitmap);
+
+  if (state === 'signed-out') {
+    for (let i = 0; i < buf.length; i++) buf[i] = Math.round(buf[i] * SIGNED_OUT_OPACITY);
+    return buf;
+  }
+  if (state === 'idle') return buf;
+
+  const color = BADGE_COLORS[state];
+  const radius = width * 0.22;
+  const gap = Math.max(1, width * 0.06);
+  const cx = width - radius - 0.5;
+  const cy = height - radius - 0.5;
+  const innerRadius = state === 'offline' ? radius * 0.5 : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const d = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      if (d > radius + gap + 0.5) continue;
+      const i = (y * width + x) * 4;
+      // Knockout ring so the badge separates from the glyph
+      paintPixel(buf, i, null, Math.min(1, Math.max(0, radius + gap + 0.5 - d)));
+      const outer = Math.min(1, Math.max(0, radius + 0.5 - d));
+      const inner = innerRadius > 0 ? Math.min(1, Math.max(0, innerRadius + 0.5 - d)) : 0;
+      const coverage = Math.max(0, outer - inner);
+      if (coverage > 0) paintPixel(buf, i, color, coverage);
+    }
+  }
+  return buf;
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+const iconCache = new Map<string, NativeImage>();
+
+/** Build (or reuse) the tray image for a state, preserving every @Nx representation. */
+export function createTrayIcon(state: TrayIconState): NativeImage {
+  const name = getTrayIconName();
+  const cacheKey = `${name}:${state}`;
+  const cached = iconCache.get(cacheKey);
+  if (cached) return cached;
+
+  const base = nativeImage.createFromPath(join(getResourceDir(), name));
+  let image = base;
+
+  if (state !== 'idle' && !base.isEmpty()) {
+    image = nativeImage.createEmpty();
+    for (const scaleFactor of base.getScaleFactors()) {
+      const { width, height } = base.getSize(scaleFactor);
+      const bitmap = composeBitmap(base.toBitmap({ scaleFactor }), width, height, state);
+      const buffer = nativeImage.createFromBitmap(bitmap, { width, height, scaleFactor }).toPNG();
+      image.addRepresentation({ scaleFactor, buffer });
+    }
+  }
+
+  if (process.platform === 'darwin') image.setTemplateImage(true);
+  iconCache.set(cacheKey, image);
+  return image;
+}
+
+/** Drop composed icons — call when the base icon changes (Windows theme switch). */
+export function clearTrayIconCache(): void {
+  iconCache.clear();
+}
@@ -0,0 +1,501 @@
+import { app, BrowserWindow, shell } from 'electron';
+import { spawn, execFile } from 'child_process';
+import { createHash, createPublicKey, verify } from 'crypto';
+import { createWriteStream, existsSync, mkdirSync, readdirSync } from 'fs';
+import { chmod, copyFile, mkdtemp, rename, rm } from 'fs/promises';
+import { once } from 'events';
+import { tmpdir } from 'os';
+import { basename, join, resolve } from 'path';
+import { promisify } from 'util';
+import { getConfig, setConfig } from './config';
+import { createLogger } from './logger';
+
+const log = createLogger('updater');
+const execFileAsync = promisify(execFile);
+
+// ============================================================
+// Types — the feed is static JSON per channel: `<feedUrl>/<channel>.json`, signed in
+// `<channel>.json.sig` (both generated by scripts/update-feed.ts), so any file server can host it
+// ============================================================
+
+export type UpdateChannel = 'stable' | 'beta';
+
+export interface UpdateSettings {
+  channel: UpdateChannel;
+  feedUrl: string | null; // overrides the build's MAIN_VITE_UPDATE_FEED_URL, e.g. a local server
+  autoCheck: boolean;
+}
+
+type AssetFormat = 'dmg' | 'exe' | 'AppImage' | 'deb' | 'rpm';
+
+interface FeedAsset {
+  platform: NodeJS.Platform;
+  arch: string;
+  format: AssetFormat;
+  url: string; // absolute, or relative to the manifest
+  sha512: string; // base64
+  size: number;
+}
+
+interface FeedManifest {
+  version: string;
+  releaseDate?: string;
+  notes?: string;
+  assets: FeedAsset[];
+}
+
+export interface UpdateStatus {
+  state: 'disabled' | 'idle' | 'checking' | 'up-to-date' | 'downloading' | 'ready' | 'error';
+  currentVersion: string;
+  version: string | null; // the update on offer
+  notes: string | null;
+  progress: number | null; // 0–1 while downloading
+  installMode: 'restart' | 'open' | null; // `open` hands a deb/rpm to the system installer
+  checkedAt: number | null;
+  error: string | null; // when disabled, the reason
+}
+
+export type UpdateStatusListener = (status: UpdateStatus) => void;
+
+const DEFAULT_SETTINGS: UpdateSettings = {
+  channel: 'stable',
+  feedUrl: null,
+  autoCheck: true,
+};
+
+const FIRST_CHECK_DELAY_MS = 30_000;
+const CHECK_INTERVAL_MS = 6 * 60 * 60_000;
+const FEED_TIMEOUT_MS = 15_000;
+
+// ============================================================
+// Settings — `updates` in config.json
+// ============================================================
+
+export function getUpdateSettings(): UpdateSettings {
+  const stored = getConfig().updates ?? {};
+  return {
+    channel: stored.channel === 'beta' ? 'beta' : DEFAULT_SETTINGS.channel,
+    feedUrl: typeof stored.feedUrl === 'string' && stored.feedUrl ? stored.feedUrl : null,
+    autoCheck:
+      typeof stored.autoCheck === 'boolean' ? stored.autoCheck : DEFAULT_SETTINGS.autoCheck,
+  };
+}
+
+/** A new channel or feed invalidates whatever was found before — check again straight away. */
+export function setUpdateSettings(patch: Partial<UpdateSettings>): UpdateSettings {
+  const current = getUpdateSettings();
+  const feedUrl = patch.feedUrl === undefined ? current.feedUrl : patch.feedUrl?.trim() || null;
+  const settings: UpdateSettings = { ...current, ...patch, feedUrl };
+  setConfig({ updates: settings });
+  log.info('Update settings updated', settings);
+
+  if (settings.channel !== current.channel || settings.feedUrl !== current.feedUrl) {
+    abortDownload();
+    setStatus(initialStatus());
+    (checking ?? Promise.resolve()).then(checkForUpdates);
+  }
+  schedule();
+  return settings;
+}
+
+function getFeedUrl(): string | null {
+  return getUpdateSettings().feedUrl ?? import.meta.env.MAIN_VITE_UPDATE_FEED_URL ?? null;
+}
+
+/** Why this build can't update, or null — without a feed and a signing key there's nothing to check. */
+function disabledReason(): string | null {
+  if (!getFeedUrl()) return 'No update feed configured';
+  if (!import.meta.env.MAIN_VITE_UPDATE_PUBLIC_KEY) return 'This build has no update signing key';
+  return null;
+}
+
+// ============================================================
+// Status — pushed to every window on `update:status`
+// ============================================================
+
+function initialStatus(): UpdateStatus {
+  const reason = disabledReason();
+  return {
+    state: reason ? 'disabled' : 'idle',
+    currentVersion: app.getVersion(),
+    version: null,
+    notes: null,
+    progress: null,
+    installMode: null,
+    checkedAt: null,
+    error: reason,
+  };
+}
+
+let status: UpdateStatus | null = null;
+let checking: Promise<void> | null = null;
+const listeners = new Set<UpdateStatusListener>();
+
+export function getUpdateStatus(): UpdateStatus {
+  status ??= initialStatus();
+  return status;
+}
+
+function setStatus(next: UpdateStatus): void {
+  status = next;
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send('update:status', next);
+  }
+  for (const listener of listeners) listener(next);
+}
+
+function patchStatus(patch: Partial<UpdateStatus>): void {
+  setStatus({ ...getUpdateStatus(), ...patch });
+}
+
+/** Subscribe to status changes. Returns an unsubscribe function. */
+export function onUpdateStatusChange(listener: UpdateStatusListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================
+// Versions — `1.2.0-beta.1` < `1.2.0` < `1.2.0-3-gabc123` (git describe: 3 commits after the tag)
+// ============================================================
+
+const DESCRIBE_SUFFIX = /^(\d+)-g[0-9a-f]+$/;
+
+function parseVersion(version: string): { core: number[]; suffix: string } {
+  const [core, ...suffix] = version.replace(/^v/, '').split('-');
+  return { core: core.split('.').map((n) => parseInt(n, 10) || 0), suffix: suffix.join('-') };
+}
+
+function suffixRank(suffix: string): number {
+  if (!suffix) return 0;
+  const describe = suffix.match(DESCRIBE_SUFFIX);
+  return describe ? Number(describe[1]) : -1;
+}
+
+function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  for (let i = 0; i < Math.max(va.core.length, vb.core.length); i++) {
+    const diff = (va.core[i] ?? 0) - (vb.core[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  const rankDiff = suffixRank(va.suffix) - suffixRank(vb.suffix);
+  if (rankDiff !== 0) return Math.sign(rankDiff);
+  return va.suffix.localeCompare(vb.suffix, undefined, { numeric: true });
+}
+
+// ============================================================
+// Check — beta also sees stable releases, whichever is newer wins
+// ============================================================
+
+/** The installer format this install can apply — an AppImage replaces itself, packages go to the OS. */
+function preferredFormat(): AssetFormat | null {
+  switch (process.platform) {
+    case 'darwin':
+      return 'dmg';
+    case 'win32':
+      return 'exe';
+    case 'linux':
+      if (process.env.APPIMAGE) return 'AppImage';
+      return existsSync('/usr/bin/dpkg') ? 'deb' : 'rpm';
+    default:
+      return null;
+  }
+}
+
+/** https only — plain http just for a feed served from this machine while testing. */
+function assertSecureUrl(url: URL): void {
+  if (url.protocol === 'https:') return;
+  const loopback =
+    url.hostname === 'localhost' ||
+    url.hostname === '[::1]' ||
+    /^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(url.hostname);
+  if (url.protocol === 'http:' && loopback) return;
+  throw new Error(`Update URLs must use https: ${url.origin}`);
+}
+
+async function fetchText(url: URL): Promise<string> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(FEED_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`${basename(url.pathname)}: HTTP ${res.status}`);
+  return res.text();
+}
+
+/** The manifest carries the installers' hashes, so it must be signed by the release key. */
+function verifyManifest(body: string, signature: string, channel: UpdateChannel): void {
+  const key = createPublicKey({
+    key: Buffer.from(import.meta.env.MAIN_VITE_UPDATE_PUBLIC_KEY!, 'base64'),
+    format: 'der',
+    type: 'spki',
+  });
+  if (!verify(null, Buffer.from(body), key, Buffer.from(signature.trim(), 'base64'))) {
+    throw new Error(`${channel}.json failed signature verification`);
+  }
+}
+
+async function fetchManifest(feedUrl: string, channel: UpdateChannel): Promise<FeedManifest> {
+  const url = new URL(`${channel}.json`, feedUrl.endsWith('/') ? feedUrl : `${feedUrl}/`);
+  assertSecureUrl(url);
+  const [body, signature] = await Promise.all([
+    fetchText(url),
+    fetchText(new URL(`${channel}.json.sig`, url)),
+  ]);
+  verifyManifest(body, signature, channel);
+  const manifest = JSON.parse(body) as FeedManifest;
+  if (typeof manifest.version !== 'string' || !Array.isArray(manifest.assets)) {
+    throw new Error(`${channel}.json is not an update manifest`);
+  }
+  // Relative asset URLs are resolved against the manifest, so a feed directory can be moved as-is
+  for (const asset of manifest.assets) asset.url = new URL(asset.url, url).toString();
+  return manifest;
+}
+
+/** Fetch the feed and download a newer build if there is one. Concurrent calls share one check. */
+export function checkForUpdates(): Promise<void> {
+  checking ??= runCheck().finally(() => {
+    checking = null;
+  });
+  return checking;
+}
+
+async function runCheck(): Promise<void> {
+  const current = getUpdateStatus();
+  if (current.state === 'downloading') return;
+
+  const feedUrl = getFeedUrl();
+  const reason = disabledReason();
+  if (!feedUrl || reason) {
+    patchStatus({ state: 'disabled', error: reason });
+    return;
+  }
+  const format = preferredFormat();
+  if (!format) {
+    patchStatus({ state: 'error', error: `Updates aren't supported on ${process.platform}` });
+    return;
+  }
+
+  patchStatus({ state: 'checking', error: null });
+  const { channel } = getUpdateSettings();
+  const channels: UpdateChannel[] = channel === 'beta' ? ['beta', 'stable'] : ['stable'];
+
+  try {
+    const results = await Promise.allSettled(channels.map((c) => fetchManifest(feedUrl, c)));
+    const manifests = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+    if (manifests.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    const latest = manifests.reduce((a, b) => (compareVersions(b.version, a.version) > 0 ? b : a));
+    const checkedAt = Date.now();
+
+    if (compareVersions(latest.version, app.getVersion()) <= 0) {
+      log.info(`Up to date (${app.getVersion()}, ${channel} feed has ${latest.version})`);
+      patchStatus({ state: 'up-to-date', version: null, notes: null, checkedAt });
+      return;
+    }
+    if (current.state === 'ready' && current.version === latest.version) {
+      patchStatus({ state: 'ready', checkedAt });
+      return;
+    }
+
+    const asset = latest.assets.find(
+      (a) => a.platform === process.platform && a.arch === process.arch && a.format === format,
+    );
+    if (!asset) {
+      throw new Error(`${latest.version} has no ${format} build for ${process.arch}`);
+    }
+    log.info(`Update available: ${latest.version} (${channel})`);
+    patchStatus({ version: latest.version, notes: latest.notes ?? null, checkedAt });
+    await download(asset, latest.version);
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') return; // settings changed mid-download
+    const message = err instanceof Error ? err.message : 'Update check failed';
+    log.warn('Update check failed:', message);
+    patchStatus({ state: 'error', progress: null, error: message, checkedAt: Date.now() });
+  }
+}
+
+// ============================================================
+// Download — streamed to a temp file, hashed on the way, verified before it's offered
+// ============================================================
+
+let downloadController: AbortController | null = null;
+let downloadedFile: string | null = null;
+
+function abortDownload(): void {
+  downloadController?.abort();
+  downloadController = null;
+}
+
+function getDownloadDir(): string {
+  const dir = join(app.getPath('temp'), 'ternity-update');
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+async function download(asset: FeedAsset, version: string): Promise<void> {
+  abortDownload();
+  const controller = new AbortController();
+  downloadController = controller;
+  const url = new URL(asset.url);
+  assertSecureUrl(url);
+  const file = join(getDownloadDir(), basename(url.pathname));
+  patchStatus({ state: 'downloading', progress: 0, error: null });
+
+  const res = await fetch(asset.url, { signal: controller.signal });
+  if (!res.ok || !res.body) throw new Error(`Download failed: HTTP ${res.status}`);
+  const total = Number(res.headers.get('content-length')) || asset.size;
+
+  const hash = createHash('sha512');
+  const out = createWriteStream(file);
+  let received = 0;
+  let reported = 0;
+  try {
+    const reader = res.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hash.update(value);
+      received += value.length;
+      if (!out.write(value)) await once(out, 'drain');
+      const progress = total ? Math.min(received / total, 1) : 0;
+      // One status push per percent — enough for a progress bar without flooding IPC
+      if (progress - reported >= 0.01) {
+        reported = progress;
+        patchStatus({ progress });
+      }
+    }
+    out.end();
+    await once(out, 'finish');
+  } catch (err) {
+    out.destroy();
+    await rm(file, { force: true });
+    throw err;
+  } finally {
+    if (downloadController === controller) downloadController = null;
+  }
+
+  if (hash.digest('base64') !== asset.sha512) {
+    await rm(file, { force: true });
+    throw new Error('Downloaded update failed verification');
+  }
+  downloadedFile = file;
+  log.info(`Downloaded ${version} to ${file}`);
+  patchStatus({
+    state: 'ready',
+    progress: null,
+    installMode: asset.format === 'deb' || asset.format === 'rpm' ? 'open' : 'restart',
+  });
+}
+
+// ============================================================
+// Install — per platform; the app restarts into the new version where it can
+// ============================================================
+
+/** Copy the .app out of the DMG next to the running bundle, then swap them. */
+async function installDmg(dmg: string): Promise<void> {
+  const bundle = resolve(process.execPath, '../../..'); // …/Ternity.app/Contents/MacOS/Ternity
+  const mountPoint = await mkdtemp(join(tmpdir(), 'ternity-update-'));
+  await execFileAsync('hdiutil', [
+    'attach',
+    dmg,
+    '-nobrowse',
+    '-readonly',
+    '-mountpoint',
+    mountPoint,
+  ]);
+  try {
+    const appName = readdirSync(mountPoint).find((name) => name.endsWith('.app'));
+    if (!appName) throw new Error('No app found in the update image');
+    await rm(`${bundle}.update`, { recursive: true, force: true });
+    await execFileAsync('ditto', [join(mountPoint, appName), `${bundle}.update`]);
+    await rename(bundle, `${bundle}.old`);
+    await rename(`${bundle}.update`, bundle);
+    await rm(`${bundle}.old`, { recursive: true, force: true });
+  } finally {
+    await execFileAsync('hdiutil', ['detach', mountPoint, '-quiet']).catch(() => {});
+  }
+}
+
+async function installAppImage(image: string): Promise<void> {
+  const target = process.env.APPIMAGE!;
+  await copyFile(image, `${target}.update`);
+  await chmod(`${target}.update`, 0o755);
+  await rename(`${target}.update`, target);
+}
+
+export async function installUpdate(): Promise<void> {
+  const { state, version, installMode } = getUpdateStatus();
+  if (state !== 'ready' || !downloadedFile) return;
+  if (!app.isPackaged) {
+    patchStatus({ error: 'Updates can only be installed in packaged builds' });
+    return;
+  }
+
+  log.info(`Installing ${version}`);
+  try {
+    if (installMode === 'open') {
+      const error = await shell.openPath(downloadedFile);
+      if (error) throw new Error(error);
+      return;
+    }
+    switch (process.platform) {
+      case 'win32':
+        // NSIS one-click: silent install, then the installer relaunches the app
+        spawn(downloadedFile, ['--updated', '/S', '--force-run'], {
+          detached: true,
+          stdio: 'ignore',
+        }).unref();
+        app.quit();
+        return;
+      case 'darwin':
+        await installDmg(downloadedFile);
+        break;
+      default:
+        await installAppImage(downloadedFile);
+        app.relaunch({ execPath: process.env.APPIMAGE });
+        app.quit();
+        return;
+    }
+    app.relaunch();
+    app.quit();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Install failed';
+    log.error('Install failed:', message);
+    patchStatus({ state: 'error', error: `Install failed: ${message}` });
+  }
+}
+
+// ============================================================
+// Lifecycle
+// ============================================================
+
+let firstCheckTimer: ReturnType<typeof setTimeout> | null = null;
+let checkInterval: ReturnType<typeof setInterval> | null = null;
+
+function clearSchedule(): void {
+  if (firstCheckTimer) clearTimeout(firstCheckTimer);
+  if (checkInterval) clearInterval(checkInterval);
+  firstCheckTimer = null;
+  checkInterval = null;
+}
+
+function schedule(): void {
+  clearSchedule();
+  if (!getUpdateSettings().autoCheck || disabledReason()) return;
+  checkInterval = setInterval(checkForUpdates, CHECK_INTERVAL_MS);
+}
+
+/** Check shortly after launch (off the startup path), then every few hours. */
+export function initUpdater(): void {
+  const reason = disabledReason();
+  if (reason) log.info(`Updates disabled: ${reason}`);
+  schedule();
+  if (getUpdateSettings().autoCheck && !reason) {
+    firstCheckTimer = setTimeout(checkForUpdates, FIRST_CHECK_DELAY_MS);
+  }
+}
+
+export function disposeUpdater(): void {
+  clearSchedule();
+  abortDownload();
+}
@@ -9,11 +9,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
   },
   getEnvironment: () => ipcRenderer.invoke('auth:get-env'),
   setEnvironment: (env: string) => ipcRenderer.invoke('auth:set-env', env),
+  getEnvironments: () => ipcRenderer.invoke('environments:list'),
+  addEnvironment: (input: Record<string, string>) => ipcRenderer.invoke('environments:add', input),
+  removeEnvironment: (envId: string) => ipcRenderer.invoke('environments:remove', envId),
   openExternal: (url: string) => ipcRenderer.invoke('auth:open-external', url),
   signIn: (envId: string) => ipcRenderer.invoke('auth:sign-in', envId),
   signInDemo: () => ipcRenderer.invoke('auth:sign-in-demo'),
   signOut: (envId: string) => ipcRenderer.invoke('auth:sign-out', envId),
   getAuthState: (envId: string) => ipcRenderer.invoke('auth:get-auth-state', envId),
+  listAccounts: () => ipcRenderer.invoke('auth:list-accounts'),
   getAccessToken: (envId: string) => ipcRenderer.invoke('auth:get-access-token', envId),
   cancelSignIn: () => ipcRenderer.invoke('auth:cancel-sign-in'),
   onAuthProgress: (callback: (data: { step: number; label: string; progress: number }) => void) => {
@@ -24,11 +28,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.removeListener('auth:progress', handler);
     };
   },
+  onTimerChanged: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('timer:changed', handler);
+    return () => {
+      ipcRenderer.removeListener('timer:changed', handler);
+    };
+  },
   apiFetch: (envId: string, path: string, options?: { method?: string; body?: unknown }) =>
     ipcRenderer.invoke('api:fetch', envId, path, options),
   getLoginItem: () => ipcRenderer.invoke('app:get-login-item'),
   setLoginItem: (enabled: boolean) => ipcRenderer.invoke('app:set-login-item', enabled),
   openLogs: () => ipcRenderer.invoke('app:open-logs'),
+  createDiagnostics: () => ipcRenderer.invoke('app:create-diagnostics'),
   getDefaultProject: () => ipcRenderer.invoke('app:get-default-project'),
   setDefaultProject: (projectId: string | null) =>
     ipcRenderer.invoke('app:set-default-project', projectId),
@@ -37,6 +49,117 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('app:set-remember-position', enabled),
   getStayOnTop: () => ipcRenderer.invoke('app:get-stay-on-top'),
   setStayOnTop: (enabled: boolean) => ipcRenderer.invoke('app:set-stay-on-top', enabled),
+  onConfigChanged: (callback: (keys: string[]) => void) => {
+    const handler = (_event: unknown, keys: string[]) => callback(keys);
+    ipcRenderer.on('config:changed', handler);
+    return () => {
+      ipcRenderer.removeListener('config:changed', handler);
+    };
+  },
   getLastHeight: () => ipcRenderer.invoke('app:get-last-height'),
   setSuppressEscape: (suppressed: boolean) => ipcRenderer.send('set-suppress-escape', suppressed),
+  getShortcuts: () => ipcRenderer.invoke('shortcuts:get'),
+  setShortcut: (action: string, accelerator: string | null) =>
+    ipcRenderer.invoke('shortcuts:set', action, accelerator),
+  setShortcutRecording: (recording: boolean) =>
+    ipcRenderer.send('shortcuts:set-recording', recording),
+  onOpenSettings: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('app:open-settings', handler);
+    return () => {
+      ipcRenderer.removeListener('app:open-settings', handler);
+    };
+  },
+  onQuickEntry: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('shortcut:quick-entry', handler);
+    return () => {
+      ipcRenderer.removeListener('shortcut:quick-entry', handler);
+    };
+  },
+  getPendingIdle: () => ipcRenderer.invoke('idle:get-pending'),
+  resolveIdle: () => ipcRenderer.invoke('idle:resolve'),
+  getIdleThreshold: () => ipcRenderer.invoke('idle:get-threshold'),
+  setIdleThreshold: (minutes: number) => ipcRenderer.invoke('idle:set-threshold', minutes),
+  onIdleDetected: (callback: (period: unknown) => void) => {
+    const handler = (_event: unknown, period: unknown) => callback(period);
+    ipcRenderer.on('idle:detected', handler);
+    return () => {
+      ipcRenderer.removeListener('idle:detected', handler);
+    };
+  },
+  getPowerPolicies: () => ipcRenderer.invoke('power:get-policies'),
+  setPowerPolicy: (event: string, policy: string) =>
+    ipcRenderer.invoke('power:set-policy', event, policy),
+  getLongTimerSettings: () => ipcRenderer.invoke('long-timer:get-settings'),
+  setLongTimerSettings: (patch: Record<string, unknown>) =>
+    ipcRenderer.invoke('long-timer:set-settings', patch),
+  getNotificationSettings: () => ipcRenderer.invoke('notifications:get-settings'),
+  setNotificationSettings: (patch: Record<string, unknown>) =>
+    ipcRenderer.invoke('notifications:set-settings', patch),
+  snoozeNotifications: (until: number | null) => ipcRenderer.invoke('notifications:snooze', until),
+  getUpdateStatus: () => ipcRenderer.invoke('update:get-status'),
+  onUpdateStatus: (callback: (status: unknown) => void) => {
+    const handler = (_event: unknown, status: unknown) => callback(status);
+    ipcRenderer.on('update:status', handler);
+    return () => {
+      ipcRenderer.removeListener('update:status', handler);
+    };
+  },
+  checkForUpdates: () => ipcRenderer.invoke('update:check'),
+  installUpdate: () => ipcRenderer.invoke('update:install'),
+  getUpdateSettings: () => ipcRenderer.invoke('update:get-settings'),
+  setUpdateSettings: (patch: Record<string, unknown>) =>
+    ipcRenderer.invoke('update:set-settings', patch),
+  getLoggingState: () => ipcRenderer.invoke('logging:get-state'),
+  setLoggingSettings: (patch: Record<string, unknown>) =>
+    ipcRenderer.invoke('logging:set-settings', patch),
+  listHooks: () => ipcRenderer.invoke('hooks:list'),
+  addHook: (input: Record<string, unknown>) => ipcRenderer.invoke('hooks:add', input),
+  removeHook: (id: string) => ipcRenderer.invoke('hooks:remove', id),
+  testHook: (id: string) => ipcRenderer.invoke('hooks:test', id),
+  getLocalApiStatus: () => ipcRenderer.invoke('local-api:get-status'),
+  setLocalApiSettings: (patch: Record<string, unknown>) =>
+    ipcRenderer.invoke('local-api:set-settings', patch),
+  regenerateLocalApiToken: () => ipcRenderer.invoke('local-api:regenerate-token'),
+  getCachedData: () => ipcRenderer.invoke('cache:get'),
+  getPopupVisible: () => ipcRenderer.invoke('popup:get-visible'),
+  onPopupVisibility: (callback: (visible: boolean) => void) => {
+    const handler = (_event: unknown, visible: boolean) => callback(visible);
+    ipcRenderer.on('popup:visibility', handler);
+    return () => {
+      ipcRenderer.removeListener('popup:visibility', handler);
+    };
+  },
+  getConnectivity: () => ipcRenderer.invoke('connectivity:get'),
+  onConnectivityChange: (callback: (state: unknown) => void) => {
+    const handler = (_event: unknown, state: unknown) => callback(state);
+    ipcRenderer.on('connectivity:changed', handler);
+    return () => {
+      ipcRenderer.removeListener('connectivity:changed', handler);
+    };
+  },
+  getPushStatus: () => ipcRenderer.invoke('push:get-status'),
+  onPushStatus: (callback: (connected: boolean) => void) => {
+    const handler = (_event: unknown, connected: boolean) => callback(connected);
+    ipcRenderer.on('push:status', handler);
+    return () => {
+      ipcRenderer.removeListener('push:status', handler);
+    };
+  },
+  onPushEvent: (callback: (event: unknown) => void) => {
+    const handler = (_event: unknown, event: unknown) => callback(event);
+    ipcRenderer.on('push:event', handler);
+    return () => {
+      ipcRenderer.removeListener('push:event', handler);
+    };
+  },
+  getSyncStatus: () => ipcRenderer.invoke('sync:get-status'),
+  onSyncStatus: (callback: (status: unknown) => void) => {
+    const handler = (_event: unknown, status: unknown) => callback(status);
+    ipcRenderer.on('sync:status', handler);
+    return () => {
+      ipcRenderer.removeListener('sync:status', handler);
+    };
+  },
 });
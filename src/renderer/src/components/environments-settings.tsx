@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Plus, Server, Trash2 } from 'lucide-react';
+import { scaled } from '@/lib/scaled';
+import { useAuth } from '@/providers/auth-provider';
+
+const FIELDS: { field: keyof CustomEnvironmentInput; label: string; placeholder: string }[] = [
+  { field: 'label', label: 'Name', placeholder: 'Acme' },
+  { field: 'apiBaseUrl', label: 'API URL', placeholder: 'https://ternity.acme.com' },
+  { field: 'webAppUrl', label: 'Web App URL', placeholder: 'https://ternity.acme.com' },
+  { field: 'logtoEndpoint', label: 'Logto Endpoint', placeholder: 'https://auth.acme.com' },
+  { field: 'logtoAppId', label: 'App ID', placeholder: 'Logto native app ID' },
+];
+
+const EMPTY_FORM: CustomEnvironmentInput = {
+  label: '',
+  apiBaseUrl: '',
+  webAppUrl: '',
+  logtoEndpoint: '',
+  logtoAppId: '',
+};
+
+export function EnvironmentsSettings() {
+  const { environment, environments } = useAuth();
+  const [form, setForm] = useState<CustomEnvironmentInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const custom = environments.filter((env) => env.custom);
+
+  // Main validates and runs OIDC discovery; the list refreshes via `config:changed`
+  const save = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    const result = await window.electronAPI?.addEnvironment(form);
+    setSaving(false);
+    if (result?.success) setForm(null);
+    else setError(result?.error ?? 'Could not add environment');
+  };
+
+  const remove = (envId: string) => {
+    window.electronAPI?.removeEnvironment(envId);
+  };
+
+  return (
+    <div className="mb-3">
+      <span
+        className="mb-2 flex items-center font-brand uppercase tracking-wider text-muted-foreground"
+        style={{ fontSize: scaled(8), letterSpacing: '1.5px', gap: scaled(4) }}
+      >
+        <Server style={{ width: scaled(10), height: scaled(10) }} />
+        Servers
+      </span>
+      <div className="rounded-md border border-border bg-card" style={{ fontSize: scaled(10) }}>
+        {custom.map((env) => (
+          <div
+            key={env.id}
+            className="flex items-center justify-between border-b border-border/50"
+            style={{ padding: `${scaled(7)} ${scaled(10)}`, gap: scaled(8) }}
+          >
+            <span className="min-w-0 truncate text-muted-foreground" title={env.apiBaseUrl}>
+              {env.label}
+              {env.id === environment && <span className="text-primary"> · active</span>}
+            </span>
+            <button
+              className="shrink-0 text-muted-foreground/50 transition-colors hover:text-red-400"
+              title={`Remove ${env.label}`}
+              onClick={() => remove(env.id)}
+            >
+              <Trash2 style={{ width: scaled(11), height: scaled(11) }} />
+            </button>
+          </div>
+        ))}
+
+        {form ? (
+          <div style={{ padding: `${scaled(7)} ${scaled(10)}` }}>
+            {FIELDS.map(({ field, label, placeholder }) => (
+              <label
+                key={field}
+                className="flex items-center justify-between text-muted-foreground"
+                style={{ padding: `${scaled(3)} 0`, gap: scaled(8) }}
+              >
+                <span className="shrink-0">{label}</span>
+                <input
+                  className="min-w-0 flex-1 rounded border border-border bg-muted/50 text-right text-foreground outline-none focus:border-primary/60"
+                  style={{ fontSize: scaled(9), padding: `${scaled(2)} ${scaled(6)}` }}
+                  placeholder={placeholder}
+                  value={form[field]}
+                  disabled={saving}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                />
+              </label>
+            ))}
+            {error && (
+              <div
+                className="text-right text-red-400"
+                style={{ fontSize: scaled(8), marginTop: scaled(2) }}
+              >
+                {error}
+              </div>
+            )}
+            <div className="flex justify-end" style={{ gap: scaled(6), marginTop: scaled(6) }}>
+              <button
+                className="text-muted-foreground transition-colors hover:text-foreground"
+                style={{ fontSize: scaled(9) }}
+                disabled={saving}
+                onClick={() => {
+                  setForm(null);
+                  setError(null);
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                className="rounded border border-primary/30 bg-primary/8 text-primary transition-colors hover:bg-primary/15 disabled:opacity-50"
+                style={{ fontSize: scaled(9), padding: `${scaled(2)} ${scaled(8)}` }}
+                disabled={saving}
+                onClick={save}
+              >
+                {saving ? 'Checking…' : 'Add'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            className="flex w-full items-center text-muted-foreground transition-colors hover:text-foreground"
+            style={{ padding: `${scaled(7)} ${scaled(10)}`, gap: scaled(4) }}
+            onClick={() => setForm(EMPTY_FORM)}
+          >
+            <Plus style={{ width: scaled(11), height: scaled(11) }} />
+            Add Server
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { Play, Plus, Trash2, Webhook } from 'lucide-react';
+import { scaled } from '@/lib/scaled';
+
+const EVENT_OPTIONS: { event: HookEvent; label: string }[] = [
+  { event: 'timer-started', label: 'Started' },
+  { event: 'timer-stopped', label: 'Stopped' },
+  { event: 'entry-updated', label: 'Edited' },
+  { event: 'project-switched', label: 'Project' },
+];
+
+const KIND_OPTIONS: { kind: HookConfig['kind']; label: string; placeholder: string }[] = [
+  { kind: 'command', label: 'Command', placeholder: '~/bin/set-status.sh' },
+  { kind: 'webhook', label: 'Webhook', placeholder: 'http://localhost:8080/ternity' },
+];
+
+const EMPTY_FORM: Omit<HookConfig, 'id'> = {
+  kind: 'command',
+  target: '',
+  events: ['timer-started', 'timer-stopped'],
+};
+
+export function HooksSettings() {
+  const [hooks, setHooks] = useState<HookConfig[]>([]);
+  const [form, setForm] = useState<Omit<HookConfig, 'id'> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, HookRunResult>>({});
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    api?.listHooks().then(setHooks);
+    return api?.onConfigChanged((keys) => {
+      if (keys.includes('hooks')) api.listHooks().then(setHooks);
+    });
+  }, []);
+
+  const save = async () => {
+    if (!form) return;
+    const result = await window.electronAPI?.addHook(form);
+    if (result?.success) {
+      setForm(null);
+      setError(null);
+    } else {
+      setError(result?.error ?? 'Could not add hook');
+    }
+  };
+
+  const toggleEvent = (event: HookEvent) => {
+    if (!form) return;
+    const events = form.events.includes(event)
+      ? form.events.filter((e) => e !== event)
+      : [...form.events, event];
+    setForm({ ...form, events });
+  };
+
+  // Runs with the current timer entry, so the output is realistic
+  const test = async (id: string) => {
+    setTesting(id);
+    const result = await window.electronAPI?.testHook(id);
+    setTesting(null);
+    if (result) setResults((prev) => ({ ...prev, [id]: result }));
+  };
+
+  const placeholder = KIND_OPTIONS.find((o) => o.kind === form?.kind)?.placeholder;
+
+  return (
+    <div className="mb-3">
+      <span
+        className="mb-2 flex items-center font-brand uppercase tracking-wider text-muted-foreground"
+        style={{ fontSize: scaled(8), letterSpacing: '1.5px', gap: scaled(4) }}
+      >
+        <Webhook style={{ width: scaled(10), height: scaled(10) }} />
+        Hooks
+      </span>
+      <div className="rounded-md border border-border bg-card" style={{ fontSize: scaled(10) }}>
+        {hooks.map((hook) => {
+          const result = results[hook.id];
+          return (
+            <div
+              key={hook.id}
+              className="border-b border-border/50"
+              style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+            >
+              <div className="flex items-center justify-between" style={{ gap: scaled(8) }}>
+                <span
+                  className="min-w-0 truncate font-mono text-muted-foreground"
+                  style={{ fontSize: scaled(9) }}
+                  title={hook.target}
+                >
+                  {hook.target}
+                </span>
+                <span className="flex shrink-0 items-center" style={{ gap: scaled(6) }}>
+                  <button
+                    className="text-muted-foreground/50 transition-colors hover:text-primary disabled:opacity-50"
+                    title="Run with the current entry"
+                    disabled={testing === hook.id}
+                    onClick={() => test(hook.id)}
+                  >
+                    <Play style={{ width: scaled(11), height: scaled(11) }} />
+                  </button>
+                  <button
+                    className="text-muted-foreground/50 transition-colors hover:text-red-400"
+                    title="Remove hook"
+                    onClick={() => window.electronAPI?.removeHook(hook.id)}
+                  >
+                    <Trash2 style={{ width: scaled(11), height: scaled(11) }} />
+                  </button>
+                </span>
+              </div>
+              <div
+                className="flex justify-between text-muted-foreground/60"
+                style={{ fontSize: scaled(8), marginTop: scaled(2), gap: scaled(8) }}
+              >
+                <span>
+                  {hook.kind === 'webhook' ? 'POST' : 'stdin'} ·{' '}
+                  {EVENT_OPTIONS.filter((o) => hook.events.includes(o.event))
+                    .map((o) => o.label)
+                    .join(', ')}
+                </span>
+                {testing === hook.id ? (
+                  <span>Running…</span>
+                ) : (
+                  result && (
+                    <span
+                      className={`truncate ${result.ok ? 'text-primary' : 'text-red-400'}`}
+                      title={result.detail}
+                    >
+                      {result.detail} · {result.durationMs}ms
+                    </span>
+                  )
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {form ? (
+          <div style={{ padding: `${scaled(7)} ${scaled(10)}` }}>
+            <div className="flex items-center justify-between" style={{ gap: scaled(8) }}>
+              <select
+                className="cursor-pointer rounded-md border-none bg-transparent text-foreground outline-none"
+                style={{ fontSize: scaled(10) }}
+                value={form.kind}
+                onChange={(e) => setForm({ ...form, kind: e.target.value as HookConfig['kind'] })}
+              >
+                {KIND_OPTIONS.map((o) => (
+                  <option key={o.kind} value={o.kind} className="bg-card text-foreground">
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="min-w-0 flex-1 rounded border border-border bg-muted/50 font-mono text-foreground outline-none focus:border-primary/60"
+                style={{ fontSize: scaled(9), padding: `${scaled(2)} ${scaled(6)}` }}
+                placeholder={placeholder}
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value })}
+              />
+            </div>
+            <div className="flex" style={{ gap: scaled(4), marginTop: scaled(6) }}>
+              {EVENT_OPTIONS.map(({ event, label }) => {
+                const active = form.events.includes(event);
+                return (
+                  <button
+                    key={event}
+                    className={`rounded transition-colors ${
+                      active
+                        ? 'bg-primary/15 text-primary'
+                        : 'text-muted-foreground/50 hover:text-foreground'
+                    }`}
+                    style={{ fontSize: scaled(9), padding: `${scaled(2)} ${scaled(6)}` }}
+                    onClick={() => toggleEvent(event)}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+            {error && (
+              <div
+                className="text-right text-red-400"
+                style={{ fontSize: scaled(8), marginTop: scaled(2) }}
+              >
+                {error}
+              </div>
+            )}
+            <div className="flex justify-end" style={{ gap: scaled(6), marginTop: scaled(6) }}>
+              <button
+                className="text-muted-foreground transition-colors hover:text-foreground"
+                style={{ fontSize: scaled(9) }}
+                onClick={() => {
+                  setForm(null);
+                  setError(null);
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                className="rounded border border-primary/30 bg-primary/8 text-primary transition-colors hover:bg-primary/15"
+                style={{ fontSize: scaled(9), padding: `${scaled(2)} ${scaled(8)}` }}
+                onClick={save}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            className="flex w-full items-center text-muted-foreground transition-colors hover:text-foreground"
+            style={{ padding: `${scaled(7)} ${scaled(10)}`, gap: scaled(4) }}
+            onClick={() => setForm(EMPTY_FORM)}
+          >
+            <Plus style={{ width: scaled(11), height: scaled(11) }} />
+            Add Hook
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
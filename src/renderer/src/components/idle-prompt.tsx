@@ -0,0 +1,176 @@
+import { memo, useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Moon } from 'lucide-react';
+import { scaled } from '@/lib/scaled';
+import { formatDuration } from './tray-popup';
+import type { Entry } from '@/lib/api-types';
+
+export type IdleResolution = 'keep' | 'discard' | 'split';
+
+const HEADINGS: Record<IdleReason, string> = {
+  idle: 'You were away',
+  suspend: 'Computer was asleep',
+  lock: 'Screen was locked',
+  shutdown: 'Ternity was closed',
+};
+
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+interface IdlePromptProps {
+  entry: Entry;
+  period: IdlePeriod;
+  onResolve: (resolution: IdleResolution) => Promise<void>;
+}
+
+export const IdlePrompt = memo(function IdlePrompt({ entry, period, onResolve }: IdlePromptProps) {
+  const [busy, setBusy] = useState(false);
+  const idleSeconds = Math.max(
+    0,
+    Math.round((new Date(period.endedAt).getTime() - new Date(period.startedAt).getTime()) / 1000),
+  );
+
+  const resolve = (resolution: IdleResolution) => {
+    if (busy) return;
+    setBusy(true);
+    onResolve(resolution).finally(() => setBusy(false));
+  };
+
+  // Suppress main-process Escape→hide while overlay is mounted
+  useEffect(() => {
+    window.electronAPI?.setSuppressEscape(true);
+    return () => window.electronAPI?.setSuppressEscape(false);
+  }, []);
+
+  // Keyboard: Escape keeps the time (the non-destructive choice)
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') resolve('keep');
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  });
+
+  const buttonStyle = {
+    fontSize: scaled(11),
+    fontWeight: 600,
+    padding: `${scaled(6)} ${scaled(14)}`,
+    borderRadius: scaled(8),
+  };
+
+  return (
+    <motion.div
+      className="absolute inset-0 z-50 flex flex-col items-center justify-center"
+      style={{
+        background: 'hsl(var(--background))',
+        padding: scaled(24),
+      }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <motion.div
+        className="flex flex-col items-center"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ type: 'spring', damping: 20, stiffness: 200, delay: 0.05 }}
+      >
+        <Moon
+          className="text-primary/60"
+          style={{ width: scaled(18), height: scaled(18), marginBottom: scaled(10) }}
+        />
+        <div
+          className="font-brand uppercase"
+          style={{
+            fontSize: scaled(8),
+            letterSpacing: '1.5px',
+            color: 'hsl(var(--primary) / 0.6)',
+          }}
+        >
+          {HEADINGS[period.reason] ?? HEADINGS.idle}
+        </div>
+        <div
+          className="font-brand tabular-nums"
+          style={{ fontSize: scaled(24), fontWeight: 600, marginTop: scaled(6) }}
+        >
+          {formatDuration(idleSeconds)}
+        </div>
+        <div
+          className="tabular-nums text-muted-foreground"
+          style={{ fontSize: scaled(11), marginTop: scaled(4) }}
+        >
+          {formatClock(period.startedAt)} – {formatClock(period.endedAt)}
+        </div>
+        <div
+          className="text-center text-muted-foreground"
+          style={{ fontSize: scaled(11), marginTop: scaled(14), maxWidth: scaled(280) }}
+        >
+          while tracking{' '}
+          <span className="text-foreground" style={{ fontWeight: 600 }}>
+            {entry.description || 'No description'}
+          </span>
+          {entry.projectName && <> · {entry.projectName}</>}
+        </div>
+      </motion.div>
+
+      <motion.div
+        className="flex items-center"
+        style={{ gap: scaled(8), marginTop: scaled(24) }}
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.15 }}
+      >
+        <motion.button
+          className="font-brand cursor-pointer disabled:cursor-default disabled:opacity-50"
+          style={{
+            ...buttonStyle,
+            background: 'transparent',
+            color: 'hsl(var(--muted-foreground))',
+            border: '1px solid hsl(var(--border) / 0.15)',
+          }}
+          title="Count the idle time towards this entry"
+          whileHover={{ scale: 1.02, backgroundColor: 'hsl(var(--muted) / 0.2)' }}
+          whileTap={{ scale: 0.97 }}
+          disabled={busy}
+          onClick={() => resolve('keep')}
+        >
+          Keep
+        </motion.button>
+        <motion.button
+          className="font-brand cursor-pointer disabled:cursor-default disabled:opacity-50"
+          style={{
+            ...buttonStyle,
+            background: 'transparent',
+            color: 'hsl(var(--muted-foreground))',
+            border: '1px solid hsl(var(--border) / 0.15)',
+          }}
+          title="Move the idle time to a separate entry"
+          whileHover={{ scale: 1.02, backgroundColor: 'hsl(var(--muted) / 0.2)' }}
+          whileTap={{ scale: 0.97 }}
+          disabled={busy}
+          onClick={() => resolve('split')}
+        >
+          Split
+        </motion.button>
+        <motion.button
+          className="font-brand cursor-pointer disabled:cursor-default disabled:opacity-50"
+          style={{
+            ...buttonStyle,
+            background: 'hsl(var(--primary))',
+            color: 'hsl(var(--background))',
+            border: 'none',
+          }}
+          title="Remove the idle time and keep tracking"
+          whileHover={{ scale: 1.02, filter: 'brightness(1.1)' }}
+          whileTap={{ scale: 0.97 }}
+          disabled={busy}
+          onClick={() => resolve('discard')}
+        >
+          Discard
+        </motion.button>
+      </motion.div>
+    </motion.div>
+  );
+});
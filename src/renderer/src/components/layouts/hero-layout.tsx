@@ -74,10 +74,11 @@ function MiniCards({ stats }: { stats: Stats }) {
   );
 }
 
-const ENV_PILL_STYLES = {
+const ENV_PILL_STYLES: Record<string, string> = {
   local: 'text-amber-500 bg-amber-500/8',
   dev: 'text-blue-400 bg-blue-400/8',
-} as const;
+};
+const CUSTOM_ENV_PILL_STYLE = 'text-violet-400 bg-violet-400/8';
 
 function PopupFooter({ webAppUrl, environment }: { webAppUrl: string; environment: EnvironmentId }) {
   const isProd = environment === 'prod';
@@ -97,7 +98,7 @@ function PopupFooter({ webAppUrl, environment }: { webAppUrl: string; environmen
       {!isProd && (
         <div className="flex items-center" style={{ gap: scaled(5) }}>
           <span
-            className={`font-mono font-semibold uppercase leading-none ${ENV_PILL_STYLES[environment]}`}
+            className={`font-mono font-semibold uppercase leading-none ${ENV_PILL_STYLES[environment] ?? CUSTOM_ENV_PILL_STYLE}`}
             style={{ fontSize: scaled(8), padding: `${scaled(2)} ${scaled(5)}`, borderRadius: scaled(4) }}
           >
             {environment}
@@ -213,6 +214,7 @@ export function HeroLayout({
                 transition={{ duration: 0.15 }}
               >
                 <input
+                  data-quick-entry
                   className="rounded-md border border-border bg-card text-center text-foreground outline-none placeholder:text-muted-foreground"
                   style={{
                     width: scaled(200),
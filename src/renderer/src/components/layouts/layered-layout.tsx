@@ -60,10 +60,11 @@ function StatsStrip({ stats }: { stats: Stats }) {
   );
 }
 
-const ENV_PILL_STYLES = {
+const ENV_PILL_STYLES: Record<string, string> = {
   local: 'text-amber-500 bg-amber-500/8',
   dev: 'text-blue-400 bg-blue-400/8',
-} as const;
+};
+const CUSTOM_ENV_PILL_STYLE = 'text-violet-400 bg-violet-400/8';
 
 function PopupFooter({ webAppUrl, environment }: { webAppUrl: string; environment: EnvironmentId }) {
   const isProd = environment === 'prod';
@@ -83,7 +84,7 @@ function PopupFooter({ webAppUrl, environment }: { webAppUrl: string; environmen
       {!isProd && (
         <div className="flex items-center" style={{ gap: scaled(5) }}>
           <span
-            className={`font-mono font-semibold uppercase leading-none ${ENV_PILL_STYLES[environment]}`}
+            className={`font-mono font-semibold uppercase leading-none ${ENV_PILL_STYLES[environment] ?? CUSTOM_ENV_PILL_STYLE}`}
             style={{ fontSize: scaled(8), padding: `${scaled(2)} ${scaled(5)}`, borderRadius: scaled(4) }}
           >
             {environment}
@@ -178,6 +179,7 @@ export function LayeredLayout({
                 transition={{ duration: 0.15 }}
               >
                 <input
+                  data-quick-entry
                   className="w-full rounded-md border border-border bg-card text-foreground outline-none transition-colors placeholder:text-muted-foreground focus:border-primary"
                   style={{
                     padding: `${scaled(6)} ${scaled(12)}`,
@@ -331,6 +331,7 @@ export function LiquidGlassLayout({
         {/* Description input — breathing border + commit/clear animations */}
         <div>
           <motion.input
+            data-quick-entry
             className={`w-full text-foreground outline-none placeholder:italic placeholder:text-muted-foreground/40 ${inputAnimClass}`}
             style={{
               padding: `${scaled(5.5)} ${scaled(10)}`,
@@ -694,7 +695,7 @@ export function LiquidGlassLayout({
               {environment !== 'prod' && (
                 <div className="pointer-events-auto flex items-center" style={{ gap: scaled(5) }}>
                   <span
-                    className={`font-mono font-semibold uppercase leading-none border ${environment === 'local' ? 'text-amber-500 bg-amber-500/8 border-amber-500/20' : 'text-blue-400 bg-blue-400/8 border-blue-400/20'}`}
+                    className={`font-mono font-semibold uppercase leading-none border ${environment === 'local' ? 'text-amber-500 bg-amber-500/8 border-amber-500/20' : environment === 'dev' ? 'text-blue-400 bg-blue-400/8 border-blue-400/20' : 'text-violet-400 bg-violet-400/8 border-violet-400/20'}`}
                     style={{ fontSize: scaled(8), padding: `${scaled(2)} ${scaled(5)}`, borderRadius: scaled(3) }}
                   >
                     {environment}
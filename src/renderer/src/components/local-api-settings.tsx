@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { Check, Copy, Plug, RefreshCw } from 'lucide-react';
+import { scaled } from '@/lib/scaled';
+
+/** Enough of the token to tell two apart without putting it on screen. */
+function maskToken(token: string): string {
+  return `••••••••${token.slice(-4)}`;
+}
+
+export function LocalApiSettings() {
+  const [status, setStatus] = useState<LocalApiStatus | null>(null);
+  const [port, setPort] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    api?.getLocalApiStatus().then(setStatus);
+    return api?.onConfigChanged((keys) => {
+      if (keys.includes('localApi')) api.getLocalApiStatus().then(setStatus);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (status) setPort(String(status.port));
+  }, [status?.port]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!status) return null;
+
+  const update = (patch: { enabled?: boolean; port?: number }) => {
+    window.electronAPI?.setLocalApiSettings(patch).then(setStatus);
+  };
+
+  const commitPort = () => {
+    const value = Number(port);
+    if (Number.isInteger(value) && value >= 1024 && value <= 65535 && value !== status.port) {
+      update({ port: value });
+    } else {
+      setPort(String(status.port));
+    }
+  };
+
+  const copyToken = async () => {
+    if (!status.token) return;
+    await navigator.clipboard.writeText(status.token);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const regenerate = () => {
+    window.electronAPI?.regenerateLocalApiToken().then(setStatus);
+  };
+
+  return (
+    <div className="mb-3">
+      <span
+        className="mb-2 flex items-center font-brand uppercase tracking-wider text-muted-foreground"
+        style={{ fontSize: scaled(8), letterSpacing: '1.5px', gap: scaled(4) }}
+      >
+        <Plug style={{ width: scaled(10), height: scaled(10) }} />
+        Local API
+      </span>
+      <div className="rounded-md border border-border bg-card" style={{ fontSize: scaled(10) }}>
+        {/* Enabled */}
+        <div
+          className={`flex cursor-pointer items-center justify-between ${
+            status.enabled ? 'border-b border-border/50' : ''
+          }`}
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+          onClick={() => update({ enabled: !status.enabled })}
+        >
+          <span className="text-muted-foreground">Browser Extensions & Plugins</span>
+          <span
+            className={`rounded-full transition-colors ${
+              status.enabled ? 'bg-primary' : 'bg-muted-foreground/30'
+            }`}
+            style={{ width: scaled(28), height: scaled(16), position: 'relative' }}
+          >
+            <span
+              className="absolute rounded-full bg-white transition-all"
+              style={{
+                width: scaled(12),
+                height: scaled(12),
+                top: scaled(2),
+                left: status.enabled ? scaled(14) : scaled(2),
+              }}
+            />
+          </span>
+        </div>
+
+        {status.enabled && (
+          <>
+            {/* Port */}
+            <div
+              className="flex items-center justify-between border-b border-border/50"
+              style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+            >
+              <span className="text-muted-foreground">Port</span>
+              <span className="flex items-center" style={{ gap: scaled(6) }}>
+                <span
+                  className={status.listening ? 'text-primary' : 'text-red-400'}
+                  style={{ fontSize: scaled(8) }}
+                >
+                  {status.listening ? 'Listening' : (status.error ?? 'Not running')}
+                </span>
+                <input
+                  className="rounded border border-border bg-muted/50 text-right font-mono text-foreground outline-none focus:border-primary/60"
+                  style={{
+                    width: scaled(52),
+                    fontSize: scaled(9),
+                    padding: `${scaled(2)} ${scaled(6)}`,
+                  }}
+                  inputMode="numeric"
+                  value={port}
+                  onChange={(e) => setPort(e.target.value.replace(/\D/g, ''))}
+                  onBlur={commitPort}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                />
+              </span>
+            </div>
+
+            {/* Token */}
+            <div
+              className="flex items-center justify-between"
+              style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+            >
+              <span className="text-muted-foreground">Token</span>
+              <span className="flex items-center" style={{ gap: scaled(6) }}>
+                <span
+                  className="font-mono text-muted-foreground/70"
+                  style={{ fontSize: scaled(9) }}
+                >
+                  {status.token ? maskToken(status.token) : '—'}
+                </span>
+                <button
+                  className="text-muted-foreground transition-colors hover:text-foreground"
+                  title="Copy token"
+                  onClick={copyToken}
+                >
+                  {copied ? (
+                    <Check
+                      className="text-primary"
+                      style={{ width: scaled(11), height: scaled(11) }}
+                    />
+                  ) : (
+                    <Copy style={{ width: scaled(11), height: scaled(11) }} />
+                  )}
+                </button>
+                <button
+                  className="text-muted-foreground transition-colors hover:text-foreground"
+                  title="Generate a new token — integrations using the old one stop working"
+                  onClick={regenerate}
+                >
+                  <RefreshCw style={{ width: scaled(11), height: scaled(11) }} />
+                </button>
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { ScrollText, X } from 'lucide-react';
+import { scaled } from '@/lib/scaled';
+
+const LEVEL_OPTIONS: { value: LogLevel; label: string }[] = [
+  { value: 'debug', label: 'Debug' },
+  { value: 'info', label: 'Info' },
+  { value: 'warn', label: 'Warnings' },
+  { value: 'error', label: 'Errors' },
+];
+
+const FORMAT_OPTIONS: { value: LoggingSettings['format']; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'json', label: 'JSON Lines' },
+];
+
+const SIZE_OPTIONS = [1, 2, 5, 10, 20, 50];
+const FILES_OPTIONS = [1, 2, 3, 5, 10];
+
+const SELECT_CLASS =
+  'cursor-pointer rounded-md border-none bg-transparent text-right text-foreground outline-none';
+
+export function LoggingSettings() {
+  const [state, setState] = useState<LoggingState | null>(null);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    api?.getLoggingState().then(setState);
+    return api?.onConfigChanged((keys) => {
+      if (keys.includes('logging')) api.getLoggingState().then(setState);
+    });
+  }, []);
+
+  if (!state) return null;
+  const { settings } = state;
+
+  const update = (patch: Partial<LoggingSettings>) => {
+    setState({ ...state, settings: { ...settings, ...patch }, override: null });
+    window.electronAPI?.setLoggingSettings(patch).then(setState);
+  };
+
+  const setModuleLevel = (module: string, level: LogLevel | null) => {
+    const modules = { ...settings.modules };
+    if (level) modules[module] = level;
+    else delete modules[module];
+    update({ modules });
+  };
+
+  const overridden = Object.keys(settings.modules).sort();
+  const addable = state.modules.filter((module) => !(module in settings.modules));
+
+  return (
+    <div className="mb-3">
+      <span
+        className="mb-2 flex items-center font-brand uppercase tracking-wider text-muted-foreground"
+        style={{ fontSize: scaled(8), letterSpacing: '1.5px', gap: scaled(4) }}
+      >
+        <ScrollText style={{ width: scaled(10), height: scaled(10) }} />
+        Logging
+      </span>
+      <div className="rounded-md border border-border bg-card" style={{ fontSize: scaled(10) }}>
+        {state.override && (
+          <div
+            className="border-b border-border/50 font-mono text-amber-400/80"
+            style={{ padding: `${scaled(5)} ${scaled(10)}`, fontSize: scaled(8) }}
+            title="Set on the command line for this session — changing a setting here ends it"
+          >
+            {state.override}
+          </div>
+        )}
+
+        {/* Default level */}
+        <div
+          className="flex items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Level</span>
+          <select
+            className={SELECT_CLASS}
+            style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+            value={settings.level}
+            onChange={(e) => update({ level: e.target.value as LogLevel })}
+          >
+            {LEVEL_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value} className="bg-card text-foreground">
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Per-module overrides, e.g. api → Debug in a packaged build */}
+        {overridden.map((module) => (
+          <div
+            key={module}
+            className="flex items-center justify-between border-b border-border/50"
+            style={{ padding: `${scaled(5)} ${scaled(10)}`, gap: scaled(8) }}
+          >
+            <span
+              className="min-w-0 truncate font-mono text-muted-foreground"
+              style={{ fontSize: scaled(9) }}
+            >
+              {module}
+            </span>
+            <span className="flex shrink-0 items-center" style={{ gap: scaled(6) }}>
+              <select
+                className={SELECT_CLASS}
+                style={{ fontSize: scaled(10) }}
+                value={settings.modules[module]}
+                onChange={(e) => setModuleLevel(module, e.target.value as LogLevel)}
+              >
+                {LEVEL_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value} className="bg-card text-foreground">
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="text-muted-foreground/50 transition-colors hover:text-red-400"
+                title="Use the default level"
+                onClick={() => setModuleLevel(module, null)}
+              >
+                <X style={{ width: scaled(11), height: scaled(11) }} />
+              </button>
+            </span>
+          </div>
+        ))}
+        {addable.length > 0 && (
+          <div
+            className="flex items-center justify-between border-b border-border/50"
+            style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+          >
+            <span className="text-muted-foreground">Module Level</span>
+            <select
+              className={`${SELECT_CLASS} text-muted-foreground`}
+              style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+              value=""
+              onChange={(e) => e.target.value && setModuleLevel(e.target.value, 'debug')}
+            >
+              <option value="" className="bg-card text-foreground">
+                Add…
+              </option>
+              {addable.map((module) => (
+                <option key={module} value={module} className="bg-card text-foreground">
+                  {module}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Format */}
+        <div
+          className="flex items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Format</span>
+          <select
+            className={SELECT_CLASS}
+            style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+            value={settings.format}
+            onChange={(e) => update({ format: e.target.value as LoggingSettings['format'] })}
+          >
+            {FORMAT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value} className="bg-card text-foreground">
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Rotation — app.log plus this many rotated files */}
+        <div
+          className="flex items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Rotate At</span>
+          <select
+            className={SELECT_CLASS}
+            style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+            value={settings.maxFileSizeMb}
+            onChange={(e) => update({ maxFileSizeMb: Number(e.target.value) })}
+          >
+            {SIZE_OPTIONS.map((mb) => (
+              <option key={mb} value={mb} className="bg-card text-foreground">
+                {mb} MB
+              </option>
+            ))}
+          </select>
+        </div>
+        <div
+          className="flex items-center justify-between"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Old Logs Kept</span>
+          <select
+            className={SELECT_CLASS}
+            style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+            value={settings.maxFiles}
+            onChange={(e) => update({ maxFiles: Number(e.target.value) })}
+          >
+            {FILES_OPTIONS.map((count) => (
+              <option key={count} value={count} className="bg-card text-foreground">
+                {count}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
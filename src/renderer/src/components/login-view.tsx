@@ -1,12 +1,23 @@
 import { motion } from 'motion/react';
 import { LogIn, RotateCw } from 'lucide-react';
 import { scaled } from '@/lib/scaled';
-import { ENVIRONMENT_LIST, type EnvironmentId } from '@/lib/environments';
 import { useAuth } from '@/providers/auth-provider';
 import { HourglassLogo } from './hourglass-logo';
 
 export function LoginView() {
-  const { environment, setEnvironment, signIn, signInDemo, isSigningIn, signInProgress, cancelSignIn } = useAuth();
+  const {
+    environment,
+    environments,
+    setEnvironment,
+    signIn,
+    signInDemo,
+    isSigningIn,
+    signInProgress,
+    cancelSignIn,
+    isAddingAccount,
+    cancelAddAccount,
+    accounts,
+  } = useAuth();
 
   return (
     <div
@@ -102,13 +113,23 @@ export function LoginView() {
                 Sign in with browser
               </motion.button>
 
-              <button
-                className="mt-3 text-muted-foreground/50 transition-colors hover:text-muted-foreground"
-                style={{ fontSize: scaled(10) }}
-                onClick={signInDemo}
-              >
-                Continue as demo
-              </button>
+              {isAddingAccount ? (
+                <button
+                  className="mt-3 text-muted-foreground/50 transition-colors hover:text-muted-foreground"
+                  style={{ fontSize: scaled(10) }}
+                  onClick={cancelAddAccount}
+                >
+                  Cancel
+                </button>
+              ) : (
+                <button
+                  className="mt-3 text-muted-foreground/50 transition-colors hover:text-muted-foreground"
+                  style={{ fontSize: scaled(10) }}
+                  onClick={signInDemo}
+                >
+                  Continue as demo
+                </button>
+              )}
             </div>
           )}
         </motion.div>
@@ -118,21 +139,27 @@ export function LoginView() {
       <div className="flex w-full items-end" style={{ WebkitAppRegion: 'no-drag' } as React.CSSProperties}>
         <div className="flex flex-1 flex-col items-center" style={{ gap: scaled(8) }}>
           <div className="flex items-center" style={{ gap: scaled(4) }}>
-            {ENVIRONMENT_LIST.map((env) => {
+            {environments.map((env) => {
               const active = environment === env.id;
+              // Adding an account: environments that already have one are switched to from the
+              // account menu — signing in again would replace that session
+              const taken = isAddingAccount && accounts.some((account) => account.envId === env.id);
               const colorClass =
                 env.id === 'local'
                   ? active ? 'text-amber-500 bg-amber-500/8 border-amber-500/30' : 'text-muted-foreground/40 border-transparent hover:text-amber-500/60'
                   : env.id === 'dev'
                     ? active ? 'text-blue-400 bg-blue-400/8 border-blue-400/30' : 'text-muted-foreground/40 border-transparent hover:text-blue-400/60'
-                    : active ? 'text-primary bg-primary/8 border-primary/30' : 'text-muted-foreground/40 border-transparent hover:text-primary/60';
+                    : env.custom
+                      ? active ? 'text-violet-400 bg-violet-400/8 border-violet-400/30' : 'text-muted-foreground/40 border-transparent hover:text-violet-400/60'
+                      : active ? 'text-primary bg-primary/8 border-primary/30' : 'text-muted-foreground/40 border-transparent hover:text-primary/60';
               return (
                 <button
                   key={env.id}
-                  disabled={isSigningIn}
-                  className={`rounded-full border font-mono font-semibold uppercase transition-colors ${colorClass} ${isSigningIn ? 'cursor-not-allowed' : ''}`}
+                  disabled={isSigningIn || taken}
+                  title={taken ? 'Already signed in' : undefined}
+                  className={`rounded-full border font-mono font-semibold uppercase transition-colors ${colorClass} ${isSigningIn || taken ? 'cursor-not-allowed' : ''} ${taken ? 'opacity-40' : ''}`}
                   style={{ fontSize: scaled(8), padding: `${scaled(2)} ${scaled(10)}` }}
-                  onClick={() => setEnvironment(env.id as EnvironmentId)}
+                  onClick={() => setEnvironment(env.id)}
                 >
                   {env.label}
                 </button>
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { Bell } from 'lucide-react';
+import { scaled } from '@/lib/scaled';
+
+const CATEGORY_OPTIONS: { category: NotificationCategory; label: string }[] = [
+  { category: 'noTimer', label: 'No Timer in Work Hours' },
+  { category: 'afterHours', label: 'Running After Hours' },
+  { category: 'longTimer', label: 'Long Timer' },
+  { category: 'syncFailed', label: 'Sync Failed' },
+];
+
+// Monday-first, values are Date#getDay()
+const WEEKDAYS = [
+  { day: 1, label: 'M' },
+  { day: 2, label: 'T' },
+  { day: 3, label: 'W' },
+  { day: 4, label: 'T' },
+  { day: 5, label: 'F' },
+  { day: 6, label: 'S' },
+  { day: 0, label: 'S' },
+];
+
+const SNOOZE_OPTIONS = [
+  { value: '60', label: '1 hour' },
+  { value: '240', label: '4 hours' },
+  { value: 'tomorrow', label: 'Until tomorrow' },
+];
+
+function snoozeUntil(value: string): number {
+  if (value === 'tomorrow') {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    tomorrow.setHours(0, 0, 0, 0);
+    return tomorrow.getTime();
+  }
+  return Date.now() + Number(value) * 60_000;
+}
+
+export function NotificationsSettings() {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    api?.getNotificationSettings().then(setSettings);
+    // Snooze is also set from the tray menu
+    return api?.onConfigChanged((keys) => {
+      if (keys.includes('notifications')) api.getNotificationSettings().then(setSettings);
+    });
+  }, []);
+
+  if (!settings) return null;
+
+  const toggleCategory = (category: NotificationCategory) => {
+    const next = !settings.categories[category];
+    setSettings({ ...settings, categories: { ...settings.categories, [category]: next } });
+    window.electronAPI?.setNotificationSettings({ categories: { [category]: next } });
+  };
+
+  const updateSchedule = (patch: Partial<WorkSchedule>) => {
+    setSettings({ ...settings, schedule: { ...settings.schedule, ...patch } });
+    window.electronAPI?.setNotificationSettings({ schedule: patch });
+  };
+
+  const toggleDay = (day: number) => {
+    const days = settings.schedule.days.includes(day)
+      ? settings.schedule.days.filter((d) => d !== day)
+      : [...settings.schedule.days, day];
+    updateSchedule({ days });
+  };
+
+  const snooze = (until: number | null) => {
+    window.electronAPI?.snoozeNotifications(until).then(setSettings);
+  };
+
+  return (
+    <div className="mb-3">
+      <span
+        className="mb-2 flex items-center font-brand uppercase tracking-wider text-muted-foreground"
+        style={{ fontSize: scaled(8), letterSpacing: '1.5px', gap: scaled(4) }}
+      >
+        <Bell style={{ width: scaled(10), height: scaled(10) }} />
+        Notifications
+      </span>
+      <div className="rounded-md border border-border bg-card" style={{ fontSize: scaled(10) }}>
+        {CATEGORY_OPTIONS.map(({ category, label }) => {
+          const enabled = settings.categories[category];
+          return (
+            <div
+              key={category}
+              className="flex cursor-pointer items-center justify-between border-b border-border/50"
+              style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+              onClick={() => toggleCategory(category)}
+            >
+              <span className="text-muted-foreground">{label}</span>
+              <span
+                className={`rounded-full transition-colors ${
+                  enabled ? 'bg-primary' : 'bg-muted-foreground/30'
+                }`}
+                style={{ width: scaled(28), height: scaled(16), position: 'relative' }}
+              >
+                <span
+                  className="absolute rounded-full bg-white transition-all"
+                  style={{
+                    width: scaled(12),
+                    height: scaled(12),
+                    top: scaled(2),
+                    left: enabled ? scaled(14) : scaled(2),
+                  }}
+                />
+              </span>
+            </div>
+          );
+        })}
+
+        {/* Work days */}
+        <div
+          className="flex items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Work Days</span>
+          <div className="flex" style={{ gap: scaled(2) }}>
+            {WEEKDAYS.map(({ day, label }) => {
+              const active = settings.schedule.days.includes(day);
+              return (
+                <button
+                  key={day}
+                  className={`rounded font-mono transition-colors ${
+                    active
+                      ? 'bg-primary/15 text-primary'
+                      : 'text-muted-foreground/50 hover:text-foreground'
+                  }`}
+                  style={{ width: scaled(16), height: scaled(16), fontSize: scaled(9) }}
+                  onClick={() => toggleDay(day)}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Work hours */}
+        <div
+          className="flex items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Work Hours</span>
+          <span className="flex items-center text-muted-foreground" style={{ gap: scaled(4) }}>
+            <input
+              type="time"
+              className="rounded-md border-none bg-transparent text-foreground outline-none"
+              style={{ fontSize: scaled(10) }}
+              value={settings.schedule.start}
+              onChange={(e) => e.target.value && updateSchedule({ start: e.target.value })}
+            />
+            –
+            <input
+              type="time"
+              className="rounded-md border-none bg-transparent text-foreground outline-none"
+              style={{ fontSize: scaled(10) }}
+              value={settings.schedule.end}
+              onChange={(e) => e.target.value && updateSchedule({ end: e.target.value })}
+            />
+          </span>
+        </div>
+
+        {/* Snooze */}
+        <div
+          className="flex items-center justify-between"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Snooze</span>
+          {settings.snoozedUntil ? (
+            <button
+              className="text-primary transition-colors hover:text-foreground"
+              style={{ fontSize: scaled(10) }}
+              onClick={() => snooze(null)}
+            >
+              Until{' '}
+              {new Date(settings.snoozedUntil).toLocaleTimeString([], {
+                hour: '2-digit',
+                minute: '2-digit',
+              })}{' '}
+              · Resume
+            </button>
+          ) : (
+            <select
+              className="cursor-pointer rounded-md border-none bg-transparent text-right text-foreground outline-none"
+              style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+              value=""
+              onChange={(e) => e.target.value && snooze(snoozeUntil(e.target.value))}
+            >
+              <option value="" className="bg-card text-foreground">
+                Off
+              </option>
+              {SNOOZE_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value} className="bg-card text-foreground">
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,133 @@
-import { Settings } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { Check, ChevronDown, Plus, Settings } from 'lucide-react';
 import { scaled } from '@/lib/scaled';
+import { useAuth } from '@/providers/auth-provider';
 import { HourglassLogo } from './hourglass-logo';
 
+function accountName(user: AuthUser | null): string {
+  return user?.name ?? user?.email ?? user?.sub ?? 'Signed in';
+}
+
+/** Active account + environment; switches between signed-in accounts without re-authenticating. */
+function AccountSwitcher() {
+  const {
+    environment,
+    environmentConfig,
+    accounts,
+    user,
+    isDemo,
+    switchAccount,
+    canAddAccount,
+    addAccount,
+  } = useAuth();
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('mousedown', handler);
+    return () => window.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  return (
+    <div
+      ref={ref}
+      className="relative"
+      style={{ WebkitAppRegion: 'no-drag' } as React.CSSProperties}
+    >
+      <button
+        className="flex max-w-full items-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground disabled:hover:bg-transparent"
+        style={{ gap: scaled(4), padding: `${scaled(2)} ${scaled(6)}`, fontSize: scaled(9) }}
+        title={`${accountName(user)} · ${environmentConfig.label}`}
+        disabled={isDemo} // demo has no stored session to switch away from — sign out instead
+        onClick={() => setOpen((o) => !o)}
+      >
+        <span className="truncate" style={{ maxWidth: scaled(110) }}>
+          {accountName(user)}
+        </span>
+        <span
+          className="rounded border border-border font-mono uppercase text-muted-foreground/70"
+          style={{ fontSize: scaled(7), padding: `0 ${scaled(3)}` }}
+        >
+          {environmentConfig.label}
+        </span>
+        {!isDemo && <ChevronDown style={{ width: scaled(10), height: scaled(10) }} />}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="absolute right-0 z-50 overflow-hidden rounded-md border border-border bg-card shadow-lg"
+            style={{
+              top: '100%',
+              marginTop: scaled(4),
+              minWidth: scaled(180),
+              fontSize: scaled(10),
+            }}
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.12 }}
+          >
+            {accounts.map((account) => {
+              const active = account.envId === environment;
+              return (
+                <button
+                  key={account.envId}
+                  className="flex w-full items-center justify-between text-left text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+                  style={{ padding: `${scaled(6)} ${scaled(10)}`, gap: scaled(8) }}
+                  onClick={() => {
+                    setOpen(false);
+                    switchAccount(account.envId);
+                  }}
+                >
+                  <span className="min-w-0">
+                    <span className={`block truncate ${active ? 'text-foreground' : ''}`}>
+                      {accountName(account.user)}
+                    </span>
+                    <span className="block font-mono uppercase" style={{ fontSize: scaled(7) }}>
+                      {account.label}
+                    </span>
+                  </span>
+                  {active && (
+                    <Check
+                      className="shrink-0 text-primary"
+                      style={{ width: scaled(12), height: scaled(12) }}
+                    />
+                  )}
+                </button>
+              );
+            })}
+            {canAddAccount && (
+              <button
+                className="flex w-full items-center border-t border-border text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+                style={{ padding: `${scaled(6)} ${scaled(10)}`, gap: scaled(4) }}
+                onClick={() => {
+                  setOpen(false);
+                  addAccount();
+                }}
+              >
+                <Plus style={{ width: scaled(11), height: scaled(11) }} />
+                Add Account
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
 export function PopupHeader({ onSettingsClick }: { onSettingsClick: () => void }) {
   return (
     <div style={{ WebkitAppRegion: 'drag' } as React.CSSProperties}>
       <div
         className="flex items-center justify-between border-b border-border"
-        style={{ padding: `${scaled(12)} ${scaled(16)}` }}
+        style={{ padding: `${scaled(12)} ${scaled(16)}`, gap: scaled(8) }}
       >
         <div
           className="flex items-center font-brand font-semibold uppercase tracking-widest text-primary"
@@ -22,13 +142,16 @@ export function PopupHeader({ onSettingsClick }: { onSettingsClick: () => void }
             Electron
           </span>
         </div>
-        <button
-          className="flex items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
-          style={{ width: scaled(24), height: scaled(24), WebkitAppRegion: 'no-drag' } as React.CSSProperties}
-          onClick={onSettingsClick}
-        >
-          <Settings style={{ width: scaled(14), height: scaled(14) }} />
-        </button>
+        <div className="flex min-w-0 items-center" style={{ gap: scaled(4) }}>
+          <AccountSwitcher />
+          <button
+            className="flex shrink-0 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            style={{ width: scaled(24), height: scaled(24), WebkitAppRegion: 'no-drag' } as React.CSSProperties}
+            onClick={onSettingsClick}
+          >
+            <Settings style={{ width: scaled(14), height: scaled(14) }} />
+          </button>
+        </div>
       </div>
     </div>
   );
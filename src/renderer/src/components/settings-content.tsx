@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { Keyboard, X, LogOut, ChevronDown, FolderKanban } from 'lucide-react';
+import { X, LogOut, ChevronDown, FolderKanban } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { scaled } from '@/lib/scaled';
 import { THEMES, type ThemeId } from '@/lib/themes';
@@ -7,11 +7,60 @@ import { SCALES, useScale } from '@/providers/scale-provider';
 import { useTheme } from '@/providers/theme-provider';
 import { LAYOUTS, TIMER_STYLES, useLayout, type LayoutId, type TimerStyleId } from '@/providers/layout-provider';
 import { useAuth } from '@/providers/auth-provider';
-import { useOptionalData, getCachedProjects, getCachedDefaultProjectId, setCachedDefaultProjectId } from '@/providers/data-provider';
+import { useOptionalData, getCachedDefaultProjectId, setCachedDefaultProjectId } from '@/providers/data-provider';
+import { getCachedProjects } from '@/lib/data-cache';
 import { ProjectPicker } from './project-picker';
+import { ShortcutsSettings } from './shortcuts-settings';
+import { NotificationsSettings } from './notifications-settings';
+import { EnvironmentsSettings } from './environments-settings';
+import { LocalApiSettings } from './local-api-settings';
+import { HooksSettings } from './hooks-settings';
+import { UpdatesSettings } from './updates-settings';
+import { LoggingSettings } from './logging-settings';
 import type { ProjectOption } from '@/lib/api-types';
 import { getConfirmTimerSwitch, setConfirmTimerSwitch, schedulePatch, getLocalPreferences } from '@/lib/preferences-sync';
 
+const POWER_POLICY_OPTIONS: { value: PowerPolicy; label: string }[] = [
+  { value: 'keep', label: 'Keep running' },
+  { value: 'stop', label: 'Stop timer' },
+  { value: 'ask', label: 'Ask on return' },
+];
+
+// Lock events aren't reported on Linux
+const POWER_EVENT_ROWS: { event: PowerEvent; label: string }[] = [
+  { event: 'suspend', label: 'On Sleep' },
+  ...(window.electronAPI?.platform !== 'linux'
+    ? [{ event: 'lock' as const, label: 'On Lock' }]
+    : []),
+  { event: 'shutdown', label: 'On Quit' },
+];
+
+const LONG_TIMER_WARNINGS = [
+  { value: 0, label: 'Off' },
+  { value: 4, label: 'After 4 hours' },
+  { value: 6, label: 'After 6 hours' },
+  { value: 8, label: 'After 8 hours' },
+  { value: 10, label: 'After 10 hours' },
+  { value: 12, label: 'After 12 hours' },
+];
+
+const AUTO_STOP_CAPS = [
+  { value: 0, label: 'Off' },
+  { value: 10, label: 'After 10 hours' },
+  { value: 12, label: 'After 12 hours' },
+  { value: 16, label: 'After 16 hours' },
+  { value: 24, label: 'After 24 hours' },
+];
+
+const IDLE_THRESHOLDS = [
+  { value: 0, label: 'Off' },
+  { value: 5, label: 'After 5 min' },
+  { value: 10, label: 'After 10 min' },
+  { value: 15, label: 'After 15 min' },
+  { value: 30, label: 'After 30 min' },
+  { value: 60, label: 'After 1 hour' },
+];
+
 export function SettingsContent({
   onClose,
 }: {
@@ -32,16 +81,37 @@ export function SettingsContent({
   const [pickerOpen, setPickerOpen] = useState(false);
   const [pickerAnchor, setPickerAnchor] = useState<{ top: number; bottom: number; left: number; right: number } | null>(null);
   const [confirmSwitch, setConfirmSwitch] = useState(getConfirmTimerSwitch);
+  const [idleThreshold, setIdleThresholdState] = useState(10);
+  const [powerPolicies, setPowerPolicies] = useState<Record<PowerEvent, PowerPolicy> | null>(null);
+  const [longTimer, setLongTimer] = useState<LongTimerSettings | null>(null);
   const [pillPop, setPillPop] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<'idle' | 'saving' | 'failed'>('idle');
   const projectTriggerRef = useRef<HTMLSpanElement>(null);
 
   useEffect(() => {
     window.electronAPI?.getLoginItem().then(setStartAtLogin);
     window.electronAPI?.getRememberPosition().then(setRememberPosition);
     window.electronAPI?.getStayOnTop().then(setStayOnTopState);
+    window.electronAPI?.getIdleThreshold().then(setIdleThresholdState);
+    window.electronAPI?.getPowerPolicies().then(setPowerPolicies);
+    window.electronAPI?.getLongTimerSettings().then(setLongTimer);
     window.dispatchEvent(new Event('settings-opened'));
   }, []);
 
+  // Follow changes made elsewhere — tray menu, server preferences sync, another window
+  useEffect(() => {
+    const api = window.electronAPI;
+    return api?.onConfigChanged((keys) => {
+      if (keys.includes('openAtLogin')) api.getLoginItem().then(setStartAtLogin);
+      if (keys.includes('rememberPosition')) api.getRememberPosition().then(setRememberPosition);
+      if (keys.includes('stayOnTop')) api.getStayOnTop().then(setStayOnTopState);
+      if (keys.includes('defaultProjectId')) api.getDefaultProject().then(setDefaultProjectId);
+      if (keys.includes('idleThresholdMinutes')) api.getIdleThreshold().then(setIdleThresholdState);
+      if (keys.includes('powerPolicies')) api.getPowerPolicies().then(setPowerPolicies);
+      if (keys.includes('longTimer')) api.getLongTimerSettings().then(setLongTimer);
+    });
+  }, []);
+
   // Sync confirmTimerSwitch when changed externally (e.g. "Don't ask again" in overlay, or server sync)
   useEffect(() => {
     const handler = (e: Event) => {
@@ -84,6 +154,11 @@ export function SettingsContent({
     setConfirmTimerSwitch(next);
   };
 
+  const updateLongTimer = (patch: Partial<LongTimerSettings>) => {
+    setLongTimer((prev) => (prev ? { ...prev, ...patch } : prev));
+    window.electronAPI?.setLongTimerSettings(patch);
+  };
+
   const handleDefaultProjectSelect = (project: ProjectOption | null) => {
     const id = project?.id ?? null;
     setDefaultProjectId(id);
@@ -297,7 +372,7 @@ export function SettingsContent({
 
         {/* Confirm Timer Switch */}
         <div
-          className="flex cursor-pointer items-center justify-between"
+          className="flex cursor-pointer items-center justify-between border-b border-border/50"
           style={{ padding: `${scaled(7)} ${scaled(10)}` }}
           onClick={toggleConfirmSwitch}
         >
@@ -319,6 +394,100 @@ export function SettingsContent({
             />
           </span>
         </div>
+
+        {/* Idle Detection */}
+        <div
+          className="flex items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Idle Detection</span>
+          <select
+            className="cursor-pointer rounded-md border-none bg-transparent text-right text-foreground outline-none"
+            style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+            value={idleThreshold}
+            onChange={(e) => {
+              const v = Number(e.target.value);
+              setIdleThresholdState(v);
+              window.electronAPI?.setIdleThreshold(v);
+            }}
+          >
+            {IDLE_THRESHOLDS.map((t) => (
+              <option key={t.value} value={t.value} className="bg-card text-foreground">
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Sleep / Lock / Quit policies */}
+        {POWER_EVENT_ROWS.map(({ event, label }) => (
+          <div
+            key={event}
+            className="flex items-center justify-between border-b border-border/50"
+            style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+          >
+            <span className="text-muted-foreground">{label}</span>
+            <select
+              className="cursor-pointer rounded-md border-none bg-transparent text-right text-foreground outline-none"
+              style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+              value={powerPolicies?.[event] ?? 'keep'}
+              disabled={!powerPolicies}
+              onChange={(e) => {
+                const v = e.target.value as PowerPolicy;
+                setPowerPolicies((prev) => (prev ? { ...prev, [event]: v } : prev));
+                window.electronAPI?.setPowerPolicy(event, v);
+              }}
+            >
+              {POWER_POLICY_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value} className="bg-card text-foreground">
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+
+        {/* Long Timer Warning */}
+        <div
+          className="flex items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Long Timer Warning</span>
+          <select
+            className="cursor-pointer rounded-md border-none bg-transparent text-right text-foreground outline-none"
+            style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+            value={longTimer?.warnAfterHours ?? 8}
+            disabled={!longTimer}
+            onChange={(e) => updateLongTimer({ warnAfterHours: Number(e.target.value) })}
+          >
+            {LONG_TIMER_WARNINGS.map((t) => (
+              <option key={t.value} value={t.value} className="bg-card text-foreground">
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Auto-stop */}
+        <div
+          className="flex items-center justify-between"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Auto-stop</span>
+          <select
+            className="cursor-pointer rounded-md border-none bg-transparent text-right text-foreground outline-none"
+            style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+            value={longTimer?.autoStopAfterHours ?? 0}
+            disabled={!longTimer}
+            onChange={(e) => updateLongTimer({ autoStopAfterHours: Number(e.target.value) })}
+          >
+            {AUTO_STOP_CAPS.map((t) => (
+              <option key={t.value} value={t.value} className="bg-card text-foreground">
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Preferences */}
@@ -411,39 +580,26 @@ export function SettingsContent({
         </div>
       )}
 
+      {/* Notifications */}
+      <NotificationsSettings />
+
       {/* Shortcuts */}
-      <div>
-        <span
-          className="mb-2 flex items-center font-brand uppercase tracking-wider text-muted-foreground"
-          style={{ fontSize: scaled(8), letterSpacing: '1.5px', gap: scaled(4) }}
-        >
-          <Keyboard style={{ width: scaled(10), height: scaled(10) }} />
-          Shortcuts
-        </span>
-        <div
-          className="rounded-md border border-border bg-card"
-          style={{ padding: `${scaled(8)} ${scaled(10)}` }}
-        >
-          {[
-            ['Start / Stop', '⌘ + Shift + T'],
-            ['Open Popup', '⌘ + Shift + P'],
-            ['Open Web App', '⌘ + Shift + W'],
-          ].map(([action, key]) => (
-            <div
-              key={action}
-              className="flex items-center justify-between text-muted-foreground"
-              style={{ fontSize: scaled(10), padding: `${scaled(3)} 0` }}
-            >
-              <span>{action}</span>
-              <kbd
-                className="rounded border border-border bg-muted/50 font-mono"
-                style={{ padding: `${scaled(1)} ${scaled(6)}`, fontSize: scaled(9) }}
-              >
-                {key}
-              </kbd>
-            </div>
-          ))}
-        </div>
+      <ShortcutsSettings />
+
+      {/* Event hooks */}
+      <HooksSettings />
+
+      {/* Loopback HTTP API */}
+      <LocalApiSettings />
+
+      {/* Auto-update */}
+      <UpdatesSettings />
+
+      <LoggingSettings />
+
+      {/* Self-hosted servers */}
+      <div className="mt-3">
+        <EnvironmentsSettings />
       </div>
 
       {/* User + Sign out */}
@@ -469,15 +625,36 @@ export function SettingsContent({
         </button>
       </div>
 
-      {/* View Logs */}
-      <div className="mt-2 text-center">
+      {/* View Logs / Diagnostics */}
+      <div
+        className="mt-2 flex items-center justify-center text-muted-foreground/40"
+        style={{ gap: scaled(6), fontSize: scaled(8) }}
+      >
         <button
-          className="text-muted-foreground/40 transition-colors hover:text-muted-foreground"
-          style={{ fontSize: scaled(8) }}
+          className="transition-colors hover:text-muted-foreground"
           onClick={() => window.electronAPI?.openLogs()}
         >
           View Logs
         </button>
+        <span>·</span>
+        <button
+          className={`transition-colors hover:text-muted-foreground disabled:opacity-50 ${
+            diagnostics === 'failed' ? 'text-red-400/70' : ''
+          }`}
+          title="Zip logs, redacted settings and system details into one file for a bug report"
+          disabled={diagnostics === 'saving'}
+          onClick={async () => {
+            setDiagnostics('saving');
+            const result = await window.electronAPI?.createDiagnostics();
+            setDiagnostics(result?.error ? 'failed' : 'idle');
+          }}
+        >
+          {diagnostics === 'saving'
+            ? 'Saving…'
+            : diagnostics === 'failed'
+              ? 'Diagnostics Failed — Retry'
+              : 'Create Diagnostics Bundle'}
+        </button>
       </div>
 
       {/* Platform badge */}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { Keyboard } from 'lucide-react';
+import { scaled } from '@/lib/scaled';
+import { SHORTCUT_OPTIONS, acceleratorFromEvent, formatAccelerator } from '@/lib/shortcuts';
+
+const isMac = window.electronAPI?.platform === 'darwin';
+
+const STATUS_HINTS: Partial<Record<ShortcutStatus, string>> = {
+  unavailable: 'In use by another application',
+  invalid: 'Not a valid shortcut',
+};
+
+export function ShortcutsSettings() {
+  const [state, setState] = useState<ShortcutsState | null>(null);
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [error, setError] = useState<{ action: ShortcutAction; message: string } | null>(null);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    api?.getShortcuts().then(setState);
+    return api?.onConfigChanged((keys) => {
+      if (keys.includes('shortcuts')) api.getShortcuts().then(setState);
+    });
+  }, []);
+
+  // While recording: release global shortcuts, keep Escape for "cancel" instead of hiding the popup
+  useEffect(() => {
+    if (!recording) return;
+    const api = window.electronAPI;
+    api?.setShortcutRecording(true);
+    api?.setSuppressEscape(true);
+
+    const save = (accelerator: string | null) => {
+      setRecording(null);
+      api?.setShortcut(recording, accelerator).then((next) => {
+        setState(next);
+        setError(next.error ? { action: recording, message: next.error } : null);
+      });
+    };
+
+    const handler = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const bare = !e.metaKey && !e.ctrlKey && !e.altKey && !e.shiftKey;
+      if (bare && e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      if (bare && (e.key === 'Backspace' || e.key === 'Delete')) {
+        save(null);
+        return;
+      }
+      const accelerator = acceleratorFromEvent(e, isMac);
+      if (!accelerator) return; // modifiers only so far — keep listening
+      const clash = SHORTCUT_OPTIONS.find(
+        (o) => o.action !== recording && state?.shortcuts[o.action] === accelerator,
+      );
+      if (clash) {
+        setError({ action: recording, message: `Already used by ${clash.label}` });
+        return;
+      }
+      save(accelerator);
+    };
+
+    window.addEventListener('keydown', handler, true);
+    return () => {
+      window.removeEventListener('keydown', handler, true);
+      api?.setShortcutRecording(false);
+      api?.setSuppressEscape(false);
+    };
+  }, [recording, state]);
+
+  return (
+    <div>
+      <span
+        className="mb-2 flex items-center font-brand uppercase tracking-wider text-muted-foreground"
+        style={{ fontSize: scaled(8), letterSpacing: '1.5px', gap: scaled(4) }}
+      >
+        <Keyboard style={{ width: scaled(10), height: scaled(10) }} />
+        Shortcuts
+      </span>
+      <div
+        className="rounded-md border border-border bg-card"
+        style={{ padding: `${scaled(8)} ${scaled(10)}` }}
+      >
+        {SHORTCUT_OPTIONS.map(({ action, label }) => {
+          const accelerator = state?.shortcuts[action] ?? null;
+          const status = state?.status[action];
+          const hint = status ? STATUS_HINTS[status] : undefined;
+          const isRecording = recording === action;
+          const rowError = error?.action === action ? error.message : hint;
+          return (
+            <div key={action} style={{ padding: `${scaled(3)} 0` }}>
+              <div
+                className="flex items-center justify-between text-muted-foreground"
+                style={{ fontSize: scaled(10) }}
+              >
+                <span>{label}</span>
+                <button
+                  className={`rounded border font-mono transition-colors ${
+                    isRecording
+                      ? 'border-primary/60 bg-primary/10 text-primary'
+                      : hint
+                        ? 'border-amber-500/40 bg-muted/50 text-amber-500'
+                        : 'border-border bg-muted/50 hover:text-foreground'
+                  }`}
+                  style={{ padding: `${scaled(1)} ${scaled(6)}`, fontSize: scaled(9) }}
+                  title={isRecording ? 'Esc to cancel, Backspace to clear' : hint}
+                  onClick={() => {
+                    setError(null);
+                    setRecording(isRecording ? null : action);
+                  }}
+                >
+                  {isRecording
+                    ? 'Press keys…'
+                    : accelerator
+                      ? formatAccelerator(accelerator, isMac)
+                      : 'None'}
+                </button>
+              </div>
+              {rowError && !isRecording && (
+                <div
+                  className="text-right text-amber-500"
+                  style={{ fontSize: scaled(8), marginTop: scaled(2) }}
+                >
+                  {rowError}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
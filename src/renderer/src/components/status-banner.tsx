@@ -9,11 +9,13 @@ export function StatusBanner({
   onDismiss,
   onStopTimer,
   mutationError,
+  longTimerHours = 8,
 }: {
   status: StatusState;
   onDismiss: () => void;
   onStopTimer: () => void;
   mutationError?: { message: string; retry: () => void };
+  longTimerHours?: number;
 }) {
   if (status === 'none') return null;
 
@@ -37,7 +39,7 @@ export function StatusBanner({
     },
     'long-timer': {
       icon: Clock,
-      message: 'Timer running for 8+ hours — did you forget to stop?',
+      message: `Timer running for ${longTimerHours}+ hours — did you forget to stop?`,
       color: 'hsl(45 93% 47%)',
       gradient: 'linear-gradient(90deg, hsl(45 93% 47% / 0.12), hsl(40 90% 45% / 0.06))',
       shimmerColor: 'hsl(45 93% 47% / 0.06)',
@@ -17,6 +17,7 @@ import { LayeredLayout } from './layouts/layered-layout';
 import { HeroLayout } from './layouts/hero-layout';
 import { ErrorBoundary } from './error-boundary';
 import { SwitchConfirmation } from './switch-confirmation';
+import { IdlePrompt, type IdleResolution } from './idle-prompt';
 import { PreferencesSync } from './preferences-sync';
 import { getConfirmTimerSwitch, setConfirmTimerSwitch } from '@/lib/preferences-sync';
 
@@ -96,8 +97,10 @@ function TimerView({ onSettingsClick }: { onSettingsClick: () => void }) {
   const [selectedProject, setSelectedProject] = useState<ProjectOption | null>(null);
   const [description, setDescription] = useState('');
   const [pendingResumeId, setPendingResumeId] = useState<string | null>(null);
-  const statusState: StatusState = data.mutationError ? 'mutation-error' : 'none';
+  const [idlePeriod, setIdlePeriod] = useState<IdlePeriod | null>(null);
   const [statusDismissed, setStatusDismissed] = useState(false);
+  const [warnAfterHours, setWarnAfterHours] = useState(8);
+  const [longTimerDismissedId, setLongTimerDismissedId] = useState<string | null>(null);
   // Reset dismissed state when a new mutation error appears
   const prevMutationError = useRef(data.mutationError);
   useEffect(() => {
@@ -106,6 +109,16 @@ function TimerView({ onSettingsClick }: { onSettingsClick: () => void }) {
     }
     prevMutationError.current = data.mutationError;
   }, [data.mutationError]);
+  // Offline queue: server rejecting replays beats merely being offline
+  const syncState: StatusState = data.syncStatus.retrying
+    ? 'sync-failed'
+    : !data.connectivity.online
+      ? 'offline'
+      : 'none';
+  // ...and a dismissed sync banner comes back when the sync state changes
+  useEffect(() => {
+    if (syncState !== 'none') setStatusDismissed(false);
+  }, [syncState]);
   const completedDuration =
     data.timer.entry?.segments
       .filter((s) => s.durationSeconds != null)
@@ -118,6 +131,18 @@ function TimerView({ onSettingsClick }: { onSettingsClick: () => void }) {
     data.timer.running,
     completedDuration,
   );
+  const isLongTimer =
+    data.timer.running &&
+    warnAfterHours > 0 &&
+    elapsed >= warnAfterHours * 3600 &&
+    longTimerDismissedId !== data.timer.entry?.id;
+  const statusState: StatusState = data.mutationError
+    ? 'mutation-error'
+    : syncState !== 'none'
+      ? syncState
+      : isLongTimer
+        ? 'long-timer'
+        : 'none';
   const descriptionCommitRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastSyncedEntryIdRef = useRef<string | null>(null);
   const defaultProjectIdRef = useRef<string | null>(null);
@@ -146,6 +171,65 @@ function TimerView({ onSettingsClick }: { onSettingsClick: () => void }) {
     return () => window.removeEventListener('default-project-changed', handler);
   }, [data.timer.running, data.projects]);
 
+  // Long-timer warning threshold — configured in settings, stored by the main process
+  useEffect(() => {
+    const api = window.electronAPI;
+    const load = () => api?.getLongTimerSettings().then((s) => setWarnAfterHours(s.warnAfterHours));
+    load();
+    return api?.onConfigChanged((keys) => {
+      if (keys.includes('longTimer')) load();
+    });
+  }, []);
+
+  // Quick Entry shortcut — main shows the popup, we focus the description input
+  useEffect(() => {
+    return window.electronAPI?.onQuickEntry(() => {
+      requestAnimationFrame(() => {
+        document.querySelector<HTMLInputElement>('[data-quick-entry]')?.focus();
+      });
+    });
+  }, []);
+
+  // Idle detection — main process reports time away from the machine while a timer ran
+  useEffect(() => {
+    window.electronAPI?.getPendingIdle().then(setIdlePeriod);
+    return window.electronAPI?.onIdleDetected(setIdlePeriod);
+  }, []);
+
+  // Drop the prompt once the timer it was about is no longer running
+  const idleEntryActive =
+    idlePeriod != null && data.timer.running && data.timer.entry?.id === idlePeriod.entryId;
+  useEffect(() => {
+    if (idlePeriod && !data.isLoading && !idleEntryActive) {
+      setIdlePeriod(null);
+      window.electronAPI?.resolveIdle();
+    }
+  }, [idlePeriod, idleEntryActive, data.isLoading]);
+
+  const handleIdleResolve = async (resolution: IdleResolution) => {
+    const period = idlePeriod;
+    if (!period) return;
+    if (resolution !== 'keep') {
+      // Trim the running segment back to the last input, then carry on from now. Each step
+      // depends on the last — stop at the first failure (already shown as a mutation error)
+      // rather than leave an overlapping entry behind.
+      const projectId = data.timer.entry?.projectId ?? null;
+      if (!(await data.stopTimer({ stoppedAt: period.startedAt }))) return;
+      if (resolution === 'split') {
+        const created = await data.createEntry({
+          description: 'Idle time',
+          projectId,
+          startedAt: period.startedAt,
+          stoppedAt: period.endedAt,
+        });
+        if (!created) return;
+      }
+      if (!(await data.resumeTimer(period.entryId))) return;
+    }
+    setIdlePeriod(null);
+    window.electronAPI?.resolveIdle();
+  };
+
   const updateTimerRef = useRef(data.updateTimer);
   updateTimerRef.current = data.updateTimer;
   // Sync description + project from running entry (on resume or initial load)
@@ -328,15 +412,20 @@ function TimerView({ onSettingsClick }: { onSettingsClick: () => void }) {
       <div className="relative shrink-0">
         <PopupHeader onSettingsClick={onSettingsClick} />
         <AnimatePresence>
-          {statusState !== 'none' && !statusDismissed && (
+          {statusState !== 'none' && (statusState === 'long-timer' || !statusDismissed) && (
             <StatusBanner
               status={statusState}
               onDismiss={() => {
+                if (statusState === 'long-timer') {
+                  setLongTimerDismissedId(data.timer.entry?.id ?? null);
+                  return;
+                }
                 setStatusDismissed(true);
                 data.dismissMutationError();
               }}
               onStopTimer={handleStop}
               mutationError={data.mutationError ?? undefined}
+              longTimerHours={warnAfterHours}
             />
           )}
         </AnimatePresence>
@@ -357,6 +446,16 @@ function TimerView({ onSettingsClick }: { onSettingsClick: () => void }) {
           />
         )}
       </AnimatePresence>
+      <AnimatePresence>
+        {idleEntryActive && idlePeriod && effectiveEntry && (
+          <IdlePrompt
+            key="idle-prompt"
+            entry={effectiveEntry}
+            period={idlePeriod}
+            onResolve={handleIdleResolve}
+          />
+        )}
+      </AnimatePresence>
       <PreferencesSync />
     </div>
   );
@@ -371,7 +470,7 @@ const BASE_SETTINGS_WIDTH = 240;
 
 export function TrayPopup() {
   const { scale } = useScale();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { environment, isAuthenticated, isAddingAccount, isLoading } = useAuth();
   const [settingsOpen, setSettingsOpen] = useState(false);
   const settingsOpenRef = useRef(false);
   const contentRef = useRef<HTMLDivElement>(null);
@@ -408,14 +507,15 @@ export function TrayPopup() {
     resizeWidth(width);
   }, [popupWidth, settingsWidth, resizeWidth]);
 
-  // Close settings panel when signing out
+  // Close settings panel when signing out or adding another account
+  const showLogin = !isAuthenticated || isAddingAccount;
   useEffect(() => {
-    if (!isAuthenticated && settingsOpenRef.current) {
+    if (showLogin && settingsOpenRef.current) {
       settingsOpenRef.current = false;
       setSettingsOpen(false);
       resizeWidth(popupWidth);
     }
-  }, [isAuthenticated, popupWidth, resizeWidth]);
+  }, [showLogin, popupWidth, resizeWidth]);
 
   const handleSettingsToggle = () => {
     if (settingsOpen) {
@@ -431,6 +531,14 @@ export function TrayPopup() {
     }
   };
 
+  // ternity://settings — main shows the popup, we open the panel (resubscribed every render so
+  // the toggle sees current widths)
+  useEffect(() => {
+    return window.electronAPI?.onOpenSettings(() => {
+      if (!showLogin && !settingsOpenRef.current) handleSettingsToggle();
+    });
+  });
+
   return (
     <div
       className="relative overflow-hidden"
@@ -463,7 +571,7 @@ export function TrayPopup() {
                   style={{ width: scaled(24), height: scaled(24) }}
                 />
               </div>
-            ) : !isAuthenticated ? (
+            ) : showLogin ? (
               <motion.div
                 key="login"
                 initial={{ opacity: 0, x: -20 }}
@@ -475,7 +583,7 @@ export function TrayPopup() {
               </motion.div>
             ) : (
               <motion.div
-                key="timer"
+                key={`timer-${environment}`}
                 className="flex min-h-0 flex-1 flex-col"
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
@@ -483,7 +591,8 @@ export function TrayPopup() {
                 transition={{ duration: 0.2 }}
               >
                 <ErrorBoundary>
-                  <DataProvider>
+                  {/* Keyed by account — polling, state and caches start fresh on every switch */}
+                  <DataProvider key={environment}>
                     <TimerView onSettingsClick={handleSettingsToggle} />
                   </DataProvider>
                 </ErrorBoundary>
@@ -493,7 +602,7 @@ export function TrayPopup() {
         </div>
 
         {/* Settings expand panel */}
-        {isAuthenticated && settingsOpen && (
+        {!showLogin && settingsOpen && (
           <div
             className="shrink-0 border-l border-border bg-background"
             style={{ width: scaled(240) }}
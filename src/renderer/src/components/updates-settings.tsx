@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { scaled } from '@/lib/scaled';
+
+const CHANNEL_OPTIONS: { value: UpdateChannel; label: string }[] = [
+  { value: 'stable', label: 'Stable' },
+  { value: 'beta', label: 'Beta' },
+];
+
+function describeStatus(status: UpdateStatus): string {
+  switch (status.state) {
+    case 'disabled':
+      return `Updates off — ${status.error ?? 'not configured'}`;
+    case 'checking':
+      return 'Checking…';
+    case 'downloading':
+      return `Downloading ${status.version} — ${Math.round((status.progress ?? 0) * 100)}%`;
+    case 'ready':
+      return `${status.version} is ready`;
+    case 'error':
+      return status.error ?? 'Update check failed';
+    case 'up-to-date':
+      return `Up to date · ${status.currentVersion}`;
+    default:
+      return status.currentVersion;
+  }
+}
+
+export function UpdatesSettings() {
+  const [settings, setSettings] = useState<UpdateSettings | null>(null);
+  const [status, setStatus] = useState<UpdateStatus | null>(null);
+  const [feedUrl, setFeedUrl] = useState('');
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    api?.getUpdateSettings().then(setSettings);
+    api?.getUpdateStatus().then(setStatus);
+    const cleanups = [
+      api?.onUpdateStatus(setStatus),
+      api?.onConfigChanged((keys) => {
+        if (keys.includes('updates')) api.getUpdateSettings().then(setSettings);
+      }),
+    ];
+    return () => cleanups.forEach((cleanup) => cleanup?.());
+  }, []);
+
+  useEffect(() => {
+    if (settings) setFeedUrl(settings.feedUrl ?? '');
+  }, [settings?.feedUrl]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!settings || !status) return null;
+
+  const update = (patch: Partial<UpdateSettings>) => {
+    setSettings({ ...settings, ...patch });
+    window.electronAPI?.setUpdateSettings(patch).then(setSettings);
+  };
+
+  const commitFeedUrl = () => {
+    const value = feedUrl.trim() || null;
+    if (value !== settings.feedUrl) update({ feedUrl: value });
+  };
+
+  const busy = status.state === 'checking' || status.state === 'downloading';
+
+  return (
+    <div className="mb-3">
+      <span
+        className="mb-2 flex items-center font-brand uppercase tracking-wider text-muted-foreground"
+        style={{ fontSize: scaled(8), letterSpacing: '1.5px', gap: scaled(4) }}
+      >
+        <Download style={{ width: scaled(10), height: scaled(10) }} />
+        Updates
+      </span>
+      <div className="rounded-md border border-border bg-card" style={{ fontSize: scaled(10) }}>
+        {/* Status + action */}
+        <div
+          className="border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <div className="flex items-center justify-between" style={{ gap: scaled(8) }}>
+            <span
+              className={`min-w-0 truncate ${
+                status.state === 'error'
+                  ? 'text-red-400'
+                  : status.state === 'ready'
+                    ? 'text-primary'
+                    : 'text-muted-foreground'
+              }`}
+              title={status.error ?? undefined}
+            >
+              {describeStatus(status)}
+            </span>
+            {status.state === 'ready' ? (
+              <button
+                className="shrink-0 rounded border border-primary/30 bg-primary/8 text-primary transition-colors hover:bg-primary/15"
+                style={{ fontSize: scaled(9), padding: `${scaled(2)} ${scaled(8)}` }}
+                onClick={() => window.electronAPI?.installUpdate()}
+              >
+                {status.installMode === 'open' ? 'Install…' : 'Restart to Update'}
+              </button>
+            ) : (
+              <button
+                className="shrink-0 text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+                style={{ fontSize: scaled(9) }}
+                disabled={busy || status.state === 'disabled'}
+                onClick={() => window.electronAPI?.checkForUpdates()}
+              >
+                Check Now
+              </button>
+            )}
+          </div>
+          {status.state === 'downloading' && (
+            <div
+              className="overflow-hidden rounded-full bg-muted"
+              style={{ height: scaled(3), marginTop: scaled(6) }}
+            >
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${Math.round((status.progress ?? 0) * 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Channel */}
+        <div
+          className="flex items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+        >
+          <span className="text-muted-foreground">Channel</span>
+          <select
+            className="cursor-pointer rounded-md border-none bg-transparent text-right text-foreground outline-none"
+            style={{ fontSize: scaled(10), padding: `${scaled(2)} 0` }}
+            value={settings.channel}
+            onChange={(e) => update({ channel: e.target.value as UpdateChannel })}
+          >
+            {CHANNEL_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value} className="bg-card text-foreground">
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Automatic checks */}
+        <div
+          className="flex cursor-pointer items-center justify-between border-b border-border/50"
+          style={{ padding: `${scaled(7)} ${scaled(10)}` }}
+          onClick={() => update({ autoCheck: !settings.autoCheck })}
+        >
+          <span className="text-muted-foreground">Check Automatically</span>
+          <span
+            className={`rounded-full transition-colors ${
+              settings.autoCheck ? 'bg-primary' : 'bg-muted-foreground/30'
+            }`}
+            style={{ width: scaled(28), height: scaled(16), position: 'relative' }}
+          >
+            <span
+              className="absolute rounded-full bg-white transition-all"
+              style={{
+                width: scaled(12),
+                height: scaled(12),
+                top: scaled(2),
+                left: settings.autoCheck ? scaled(14) : scaled(2),
+              }}
+            />
+          </span>
+        </div>
+
+        {/* Feed override — e.g. a local static server while testing releases */}
+        <label
+          className="flex items-center justify-between text-muted-foreground"
+          style={{ padding: `${scaled(7)} ${scaled(10)}`, gap: scaled(8) }}
+        >
+          <span className="shrink-0">Feed URL</span>
+          <input
+            className="min-w-0 flex-1 rounded border border-border bg-muted/50 text-right text-foreground outline-none focus:border-primary/60"
+            style={{ fontSize: scaled(9), padding: `${scaled(2)} ${scaled(6)}` }}
+            placeholder="Default"
+            value={feedUrl}
+            onChange={(e) => setFeedUrl(e.target.value)}
+            onBlur={commitFeedUrl}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
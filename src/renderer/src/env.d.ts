@@ -16,6 +16,26 @@ interface AuthState {
   user: AuthUser | null;
 }
 
+interface Account {
+  envId: string;
+  label: string;
+  user: AuthUser | null;
+}
+
+interface CustomEnvironmentInput {
+  label: string;
+  apiBaseUrl: string;
+  webAppUrl: string;
+  logtoEndpoint: string;
+  logtoAppId: string;
+}
+
+interface AddEnvironmentResult {
+  success: boolean;
+  environment?: import('@/lib/environments').EnvironmentConfig;
+  error?: string;
+}
+
 interface SignInResult {
   success: boolean;
   isAuthenticated?: boolean;
@@ -23,6 +43,164 @@ interface SignInResult {
   error?: string;
 }
 
+type ShortcutAction = 'togglePopup' | 'startStop' | 'resumeLast' | 'quickEntry';
+
+type ShortcutStatus = 'registered' | 'disabled' | 'unavailable' | 'invalid';
+
+interface ShortcutsState {
+  shortcuts: Record<ShortcutAction, string | null>;
+  status: Record<ShortcutAction, ShortcutStatus>;
+  error?: string;
+}
+
+type IdleReason = 'idle' | 'suspend' | 'lock' | 'shutdown';
+
+interface IdlePeriod {
+  entryId: string;
+  reason: IdleReason;
+  startedAt: string;
+  endedAt: string;
+}
+
+type PowerEvent = 'suspend' | 'lock' | 'shutdown';
+
+type PowerPolicy = 'keep' | 'stop' | 'ask';
+
+interface LongTimerSettings {
+  warnAfterHours: number;
+  autoStopAfterHours: number;
+}
+
+type NotificationCategory = 'noTimer' | 'afterHours' | 'longTimer' | 'syncFailed';
+
+interface WorkSchedule {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+interface NotificationSettings {
+  categories: Record<NotificationCategory, boolean>;
+  schedule: WorkSchedule;
+  snoozedUntil: number | null;
+}
+
+type UpdateChannel = 'stable' | 'beta';
+
+/** Mirrors `UpdateSettings` in src/main/updater.ts */
+interface UpdateSettings {
+  channel: UpdateChannel;
+  feedUrl: string | null;
+  autoCheck: boolean;
+}
+
+/** Mirrors `UpdateStatus` in src/main/updater.ts */
+interface UpdateStatus {
+  state: 'disabled' | 'idle' | 'checking' | 'up-to-date' | 'downloading' | 'ready' | 'error';
+  currentVersion: string;
+  version: string | null;
+  notes: string | null;
+  progress: number | null;
+  installMode: 'restart' | 'open' | null;
+  checkedAt: number | null;
+  error: string | null; // when disabled, the reason
+}
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Mirrors `LoggingSettings` in src/main/log-settings.ts */
+interface LoggingSettings {
+  format: 'text' | 'json';
+  level: LogLevel;
+  modules: Record<string, LogLevel>; // per-module overrides
+  maxFileSizeMb: number;
+  maxFiles: number;
+}
+
+/** Mirrors `LoggingState` in src/main/log-settings.ts */
+interface LoggingState {
+  settings: LoggingSettings;
+  modules: string[];
+  override: string | null;
+}
+
+type HookEvent = 'timer-started' | 'timer-stopped' | 'entry-updated' | 'project-switched';
+
+/** Mirrors `HookConfig` in src/main/hooks.ts */
+interface HookConfig {
+  id: string;
+  kind: 'command' | 'webhook';
+  target: string;
+  events: HookEvent[];
+}
+
+interface HookRunResult {
+  ok: boolean;
+  durationMs: number;
+  detail: string;
+}
+
+/** Mirrors `LocalApiStatus` in src/main/local-api.ts */
+interface LocalApiStatus {
+  enabled: boolean;
+  port: number;
+  token: string | null;
+  listening: boolean;
+  error: string | null;
+}
+
+/** Mirrors `ApiErrorCode` in src/main/api-client.ts */
+type ApiErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'invalid'
+  | 'rate_limited'
+  | 'server'
+  | 'parse'
+  | 'unknown';
+
+interface ConnectivityState {
+  online: boolean;
+  reason: 'network' | 'server' | null;
+  since: number;
+}
+
+interface SyncStatus {
+  pending: number; // queued mutations waiting to replay
+  retrying: boolean;
+}
+
+/** Mirrors `DiagnosticsResult` in src/main/diagnostics.ts */
+interface DiagnosticsResult {
+  success: boolean;
+  path?: string;
+  canceled?: boolean;
+  error?: string;
+}
+
+/** Keys pushed on `config:changed` — mirrors `SettingKey` in src/main/index.ts */
+type SettingKey =
+  | 'environment'
+  | 'customEnvironments'
+  | 'rememberPosition'
+  | 'stayOnTop'
+  | 'defaultProjectId'
+  | 'idleThresholdMinutes'
+  | 'shortcuts'
+  | 'powerPolicies'
+  | 'longTimer'
+  | 'notifications'
+  | 'localApi'
+  | 'hooks'
+  | 'updates'
+  | 'logging'
+  | 'openAtLogin'
+  | 'accounts';
+
 interface Window {
   electronAPI: {
     platform: string;
@@ -30,31 +208,91 @@ interface Window {
     resizeWindow: (width: number, height: number) => void;
     getEnvironment: () => Promise<string | null>;
     setEnvironment: (env: string) => Promise<void>;
+    getEnvironments: () => Promise<import('@/lib/environments').EnvironmentConfig[]>;
+    addEnvironment: (input: CustomEnvironmentInput) => Promise<AddEnvironmentResult>;
+    removeEnvironment: (envId: string) => Promise<void>;
     openExternal: (url: string) => Promise<void>;
     signIn: (envId: string) => Promise<SignInResult>;
     signInDemo: () => Promise<void>;
     signOut: (envId: string) => Promise<void>;
     getAuthState: (envId: string) => Promise<AuthState>;
+    listAccounts: () => Promise<Account[]>;
     getAccessToken: (envId: string) => Promise<string | null>;
     cancelSignIn: () => Promise<void>;
     onAuthProgress: (
       callback: (data: { step: number; label: string; progress: number }) => void,
     ) => () => void;
+    onTimerChanged: (callback: () => void) => () => void;
     apiFetch: (
       envId: string,
       path: string,
       options?: { method?: string; body?: unknown },
-    ) => Promise<{ data?: unknown; error?: string; status: number }>;
+    ) => Promise<{
+      data?: unknown;
+      error?: string;
+      status: number;
+      code?: ApiErrorCode;
+      queued?: boolean;
+    }>;
     getLoginItem: () => Promise<boolean>;
     setLoginItem: (enabled: boolean) => Promise<void>;
     openLogs: () => Promise<void>;
+    createDiagnostics: () => Promise<DiagnosticsResult>;
     getDefaultProject: () => Promise<string | null>;
     setDefaultProject: (projectId: string | null) => Promise<void>;
     getRememberPosition: () => Promise<boolean>;
     setRememberPosition: (enabled: boolean) => Promise<void>;
     getStayOnTop: () => Promise<boolean>;
     setStayOnTop: (enabled: boolean) => Promise<void>;
+    onConfigChanged: (callback: (keys: SettingKey[]) => void) => () => void;
     getLastHeight: () => Promise<number>;
     setSuppressEscape: (suppressed: boolean) => void;
+    getShortcuts: () => Promise<ShortcutsState>;
+    setShortcut: (action: ShortcutAction, accelerator: string | null) => Promise<ShortcutsState>;
+    setShortcutRecording: (recording: boolean) => void;
+    onQuickEntry: (callback: () => void) => () => void;
+    onOpenSettings: (callback: () => void) => () => void;
+    getPendingIdle: () => Promise<IdlePeriod | null>;
+    resolveIdle: () => Promise<void>;
+    getIdleThreshold: () => Promise<number>;
+    setIdleThreshold: (minutes: number) => Promise<void>;
+    onIdleDetected: (callback: (period: IdlePeriod) => void) => () => void;
+    getPowerPolicies: () => Promise<Record<PowerEvent, PowerPolicy>>;
+    setPowerPolicy: (event: PowerEvent, policy: PowerPolicy) => Promise<void>;
+    getLongTimerSettings: () => Promise<LongTimerSettings>;
+    setLongTimerSettings: (patch: Partial<LongTimerSettings>) => Promise<LongTimerSettings>;
+    getNotificationSettings: () => Promise<NotificationSettings>;
+    setNotificationSettings: (patch: {
+      categories?: Partial<Record<NotificationCategory, boolean>>;
+      schedule?: Partial<WorkSchedule>;
+    }) => Promise<NotificationSettings>;
+    snoozeNotifications: (until: number | null) => Promise<NotificationSettings>;
+    getUpdateStatus: () => Promise<UpdateStatus>;
+    onUpdateStatus: (callback: (status: UpdateStatus) => void) => () => void;
+    checkForUpdates: () => Promise<void>;
+    installUpdate: () => Promise<void>;
+    getUpdateSettings: () => Promise<UpdateSettings>;
+    setUpdateSettings: (patch: Partial<UpdateSettings>) => Promise<UpdateSettings>;
+    getLoggingState: () => Promise<LoggingState>;
+    setLoggingSettings: (patch: Partial<LoggingSettings>) => Promise<LoggingState>;
+    listHooks: () => Promise<HookConfig[]>;
+    addHook: (
+      input: Omit<HookConfig, 'id'>,
+    ) => Promise<{ success: boolean; hook?: HookConfig; error?: string }>;
+    removeHook: (id: string) => Promise<boolean>;
+    testHook: (id: string) => Promise<HookRunResult>;
+    getLocalApiStatus: () => Promise<LocalApiStatus>;
+    setLocalApiSettings: (patch: { enabled?: boolean; port?: number }) => Promise<LocalApiStatus>;
+    regenerateLocalApiToken: () => Promise<LocalApiStatus>;
+    getCachedData: () => Promise<import('@/lib/data-cache').CachedData | null>;
+    getPopupVisible: () => Promise<boolean>;
+    onPopupVisibility: (callback: (visible: boolean) => void) => () => void;
+    getConnectivity: () => Promise<ConnectivityState>;
+    onConnectivityChange: (callback: (state: ConnectivityState) => void) => () => void;
+    getPushStatus: () => Promise<boolean>;
+    onPushStatus: (callback: (connected: boolean) => void) => () => void;
+    onPushEvent: (callback: (event: import('@/lib/api-types').ServerEvent) => void) => () => void;
+    getSyncStatus: () => Promise<SyncStatus>;
+    onSyncStatus: (callback: (status: SyncStatus) => void) => () => void;
   };
 }
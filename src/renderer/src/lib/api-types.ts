@@ -60,3 +60,8 @@ export interface UserPreferences {
   confirmTimerSwitch: boolean;
   defaultProjectId: string | null;
 }
+
+/** Events on the /api/events stream, forwarded by the main process. */
+export type ServerEvent =
+  | { type: 'timer.changed'; data: TimerState }
+  | { type: 'entries.changed'; data: { entryId: string | null } };
@@ -2,6 +2,7 @@ export class ApiError extends Error {
   constructor(
     public status: number,
     message: string,
+    public code: ApiErrorCode = 'unknown',
   ) {
     super(message);
   }
@@ -16,8 +17,24 @@ export async function apiFetch<T>(
   const result = await window.electronAPI.apiFetch(envId, path, options);
 
   if (result.error) {
-    throw new ApiError(result.status, result.error);
+    throw new ApiError(result.status, result.error, result.code);
   }
 
   return result.data as T;
 }
+
+/** Like `apiFetch`, but reports whether the main process queued the mutation for later. */
+export async function apiMutate<T>(
+  _apiBaseUrl: string,
+  envId: string,
+  path: string,
+  options: { method: string; body?: unknown },
+): Promise<{ data: T; queued: boolean }> {
+  const result = await window.electronAPI.apiFetch(envId, path, options);
+
+  if (result.error) {
+    throw new ApiError(result.status, result.error, result.code);
+  }
+
+  return { data: result.data as T, queued: result.queued === true };
+}
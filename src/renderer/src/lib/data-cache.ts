@@ -0,0 +1,38 @@
+import type { DayGroup, ProjectOption, Stats, TimerState, UserProfile } from './api-types';
+
+/** Mirrors `CachedData` in src/main/cache.ts — last known server data for the signed-in user. */
+export interface CachedData {
+  timer: TimerState | null;
+  stats: Stats | null;
+  entries: DayGroup[] | null;
+  projects: ProjectOption[] | null;
+  profile: UserProfile | null;
+  savedAt: number;
+}
+
+const EMPTY_CACHE: CachedData = {
+  timer: null,
+  stats: null,
+  entries: null,
+  projects: null,
+  profile: null,
+  savedAt: 0,
+};
+
+// The main process persists the cache; this copy serves synchronous reads
+// from outside DataProvider (e.g. the settings panel)
+let snapshot: CachedData | null = null;
+
+export async function loadCachedData(): Promise<CachedData | null> {
+  snapshot = (await window.electronAPI?.getCachedData()) ?? null;
+  return snapshot;
+}
+
+/** Keep the in-memory copy current as fresh data arrives. */
+export function updateCachedData(fields: Partial<CachedData>): void {
+  snapshot = { ...(snapshot ?? EMPTY_CACHE), ...fields };
+}
+
+export function getCachedProjects(): ProjectOption[] {
+  return snapshot?.projects ?? [];
+}
@@ -1,5 +1,9 @@
-export type EnvironmentId = 'local' | 'dev' | 'prod';
+export type BuiltInEnvironmentId = 'local' | 'dev' | 'prod';
 
+/** A built-in id, or the slug of a user-defined environment (added in settings, stored by main). */
+export type EnvironmentId = string;
+
+/** Mirrors `EnvironmentConfig` in src/main/environments.ts */
 export interface EnvironmentConfig {
   id: EnvironmentId;
   label: string;
@@ -7,9 +11,11 @@ export interface EnvironmentConfig {
   webAppUrl: string;
   logtoEndpoint: string;
   logtoAppId: string;
+  custom?: boolean;
 }
 
-export const ENVIRONMENTS: Record<EnvironmentId, EnvironmentConfig> = {
+/** Shown until the main process answers with the full list (built-ins + custom). */
+export const BUILT_IN_ENVIRONMENTS: Record<BuiltInEnvironmentId, EnvironmentConfig> = {
   local: {
     id: 'local',
     label: 'Local',
@@ -36,6 +42,6 @@ export const ENVIRONMENTS: Record<EnvironmentId, EnvironmentConfig> = {
   },
 };
 
-export const ENVIRONMENT_LIST = Object.values(ENVIRONMENTS);
+export const BUILT_IN_ENVIRONMENT_LIST = Object.values(BUILT_IN_ENVIRONMENTS);
 
-export const DEFAULT_ENVIRONMENT: EnvironmentId = 'prod';
+export const DEFAULT_ENVIRONMENT: BuiltInEnvironmentId = 'prod';
@@ -0,0 +1,91 @@
+// Global shortcut helpers — Electron accelerator strings <-> keyboard events / display labels
+
+export const SHORTCUT_OPTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'startStop', label: 'Start / Stop' },
+  { action: 'togglePopup', label: 'Toggle Popup' },
+  { action: 'resumeLast', label: 'Resume Last Entry' },
+  { action: 'quickEntry', label: 'Quick Entry' },
+];
+
+const NAMED_KEYS: Record<string, string> = {
+  Space: 'Space',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  Insert: 'Insert',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+};
+
+// Physical key codes keep the accelerator layout-independent (Shift+2 stays "2", not "@")
+function keyFromCode(code: string): string | null {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit[0-9]$/.test(code)) return code.slice(5);
+  if (/^F([1-9]|1[0-9]|2[0-4])$/.test(code)) return code;
+  return NAMED_KEYS[code] ?? null;
+}
+
+/**
+ * Build an accelerator from a keydown, or null while only modifiers are held.
+ * Requires a non-Shift modifier unless the key is a function key, so plain typing
+ * can never be captured system-wide.
+ */
+export function acceleratorFromEvent(e: KeyboardEvent, isMac: boolean): string | null {
+  const key = keyFromCode(e.code);
+  if (!key) return null;
+
+  const parts: string[] = [];
+  if (isMac) {
+    if (e.metaKey) parts.push('CommandOrControl');
+    if (e.ctrlKey) parts.push('Control');
+  } else {
+    if (e.ctrlKey) parts.push('CommandOrControl');
+    if (e.metaKey) parts.push('Super');
+  }
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+
+  const isFunctionKey = /^F\d+$/.test(key);
+  if (!isFunctionKey && !parts.some((p) => p !== 'Shift')) return null;
+  return [...parts, key].join('+');
+}
+
+export function formatAccelerator(accelerator: string, isMac: boolean): string {
+  return accelerator
+    .split('+')
+    .map((part) => {
+      switch (part) {
+        case 'CommandOrControl':
+        case 'CmdOrCtrl':
+          return isMac ? '⌘' : 'Ctrl';
+        case 'Command':
+        case 'Cmd':
+          return '⌘';
+        case 'Control':
+        case 'Ctrl':
+          return isMac ? '⌃' : 'Ctrl';
+        case 'Alt':
+        case 'Option':
+          return isMac ? '⌥' : 'Alt';
+        default:
+          return part;
+      }
+    })
+    .join(' + ');
+}
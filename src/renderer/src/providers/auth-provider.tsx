@@ -1,6 +1,7 @@
 import { createContext, useContext, useCallback, useEffect, useState, type ReactNode } from 'react';
 import {
-  ENVIRONMENTS,
+  BUILT_IN_ENVIRONMENT_LIST,
+  BUILT_IN_ENVIRONMENTS,
   DEFAULT_ENVIRONMENT,
   type EnvironmentId,
   type EnvironmentConfig,
@@ -15,6 +16,9 @@ export interface SignInProgress {
 interface AuthContextValue {
   environment: EnvironmentId;
   environmentConfig: EnvironmentConfig;
+  environments: EnvironmentConfig[];
+  accounts: Account[];
+  isAddingAccount: boolean;
   isAuthenticated: boolean;
   isDemo: boolean;
   isLoading: boolean;
@@ -22,6 +26,10 @@ interface AuthContextValue {
   signInProgress: SignInProgress | null;
   user: AuthUser | null;
   setEnvironment: (env: EnvironmentId) => void;
+  switchAccount: (env: EnvironmentId) => void;
+  canAddAccount: boolean; // some environment has no account yet
+  addAccount: () => void;
+  cancelAddAccount: () => void;
   signIn: () => void;
   signInDemo: () => void;
   signOut: () => void;
@@ -37,9 +45,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isSigningIn, setIsSigningIn] = useState(false);
   const [signInProgress, setSignInProgress] = useState<SignInProgress | null>(null);
   const [user, setUser] = useState<AuthUser | null>(null);
-
-  const environmentConfig = ENVIRONMENTS[environment];
+  const [environments, setEnvironments] = useState<EnvironmentConfig[]>(BUILT_IN_ENVIRONMENT_LIST);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  // Environment to return to if adding another account is cancelled
+  const [addingFrom, setAddingFrom] = useState<EnvironmentId | null>(null);
+
+  const environmentConfig =
+    environments.find((env) => env.id === environment) ??
+    BUILT_IN_ENVIRONMENTS[DEFAULT_ENVIRONMENT];
   const isDemo = isAuthenticated && user?.sub === 'demo';
+  // One account per environment — signing in where one exists would replace its session
+  const canAddAccount = environments.some(
+    (env) => !accounts.some((account) => account.envId === env.id),
+  );
 
   // Load persisted environment + restore auth state on mount
   useEffect(() => {
@@ -51,9 +69,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     (async () => {
       try {
-        const stored = await api.getEnvironment();
-        const envId = stored && stored in ENVIRONMENTS ? (stored as EnvironmentId) : environment;
-        if (stored && stored in ENVIRONMENTS) {
+        const [stored, list] = await Promise.all([api.getEnvironment(), api.getEnvironments()]);
+        setEnvironments(list);
+        api.listAccounts().then(setAccounts);
+        const envId = stored && list.some((env) => env.id === stored) ? stored : environment;
+        if (envId !== environment) {
           setEnvironmentState(envId);
         }
 
@@ -69,6 +89,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     })();
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Custom environments are added/removed in settings; removing the active one switches back to
+  // the default in main, which we follow here
+  useEffect(() => {
+    const api = window.electronAPI;
+    return api?.onConfigChanged(async (keys) => {
+      if (keys.includes('accounts')) api.listAccounts().then(setAccounts);
+      if (keys.includes('customEnvironments')) setEnvironments(await api.getEnvironments());
+      if (!keys.includes('environment')) return;
+      const envId = (await api.getEnvironment()) ?? DEFAULT_ENVIRONMENT;
+      const state = await api.getAuthState(envId);
+      setEnvironmentState(envId);
+      setIsAuthenticated(state.isAuthenticated);
+      setUser(state.user);
+    });
+  }, []);
+
   const setEnvironment = useCallback((env: EnvironmentId) => {
     setEnvironmentState(env);
     window.electronAPI?.setEnvironment(env);
@@ -89,6 +125,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signIn = useCallback(() => {
     const api = window.electronAPI;
     if (!api) return;
+    if (addingFrom && accounts.some((account) => account.envId === environment)) return;
 
     setIsSigningIn(true);
     setSignInProgress({ step: 0, label: 'Starting...', progress: 0 });
@@ -101,6 +138,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           setIsAuthenticated(true);
           setUser(result.user ?? null);
+          setAddingFrom(null);
         } else if (result.error) {
           console.warn('[auth] Sign-in failed:', result.error);
         }
@@ -110,19 +148,49 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setIsSigningIn(false);
         setSignInProgress(null);
       });
-  }, [environment]);
+  }, [environment, addingFrom, accounts]);
 
   const signInDemo = useCallback(async () => {
     await window.electronAPI?.signInDemo();
     setIsAuthenticated(true);
     setUser({ sub: 'demo', name: 'Demo User' });
+    setAddingFrom(null);
   }, []);
 
+  // Other accounts stay signed in — fall through to the next one
   const signOut = useCallback(() => {
     setIsAuthenticated(false);
     setUser(null);
-    window.electronAPI?.signOut(environment);
-  }, [environment]);
+    const next = isDemo ? null : accounts.find((account) => account.envId !== environment);
+    window.electronAPI?.signOut(environment).then(() => {
+      if (next) setEnvironment(next.envId);
+    });
+  }, [environment, accounts, isDemo, setEnvironment]);
+
+  // No re-authentication — tokens for every account are kept by main
+  const switchAccount = useCallback(
+    (env: EnvironmentId) => {
+      setAddingFrom(null);
+      if (env !== environment) setEnvironment(env);
+    },
+    [environment, setEnvironment],
+  );
+
+  // Show the login view without signing out, on an environment that has no account yet;
+  // the new account becomes the active one
+  const addAccount = useCallback(() => {
+    const target = environments.find(
+      (env) => !accounts.some((account) => account.envId === env.id),
+    );
+    if (!target) return;
+    setAddingFrom(environment);
+    setEnvironment(target.id);
+  }, [environment, environments, accounts, setEnvironment]);
+
+  const cancelAddAccount = useCallback(() => {
+    if (addingFrom && addingFrom !== environment) setEnvironment(addingFrom);
+    setAddingFrom(null);
+  }, [addingFrom, environment, setEnvironment]);
 
   const cancelSignIn = useCallback(() => {
     window.electronAPI?.cancelSignIn();
@@ -134,6 +202,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         environment,
         environmentConfig,
+        environments,
+        accounts,
+        isAddingAccount: addingFrom !== null,
         isAuthenticated,
         isDemo,
         isLoading,
@@ -141,6 +212,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         signInProgress,
         user,
         setEnvironment,
+        switchAccount,
+        canAddAccount,
+        addAccount,
+        cancelAddAccount,
         signIn,
         signInDemo,
         signOut,
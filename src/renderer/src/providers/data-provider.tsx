@@ -8,7 +8,8 @@ import {
   type ReactNode,
 } from 'react';
 import { useAuth } from './auth-provider';
-import { apiFetch, ApiError } from '@/lib/api';
+import { apiFetch, apiMutate, ApiError } from '@/lib/api';
+import { loadCachedData, updateCachedData } from '@/lib/data-cache';
 import type {
   Entry,
   TimerState,
@@ -33,9 +34,20 @@ interface DataContextValue {
   error: string | null;
   mutationError: MutationError | null;
   dismissMutationError: () => void;
-  startTimer: (params: { description?: string; projectId?: string }) => Promise<void>;
-  stopTimer: () => Promise<void>;
-  resumeTimer: (entryId: string) => Promise<void>;
+  connectivity: ConnectivityState;
+  pushConnected: boolean;
+  syncStatus: SyncStatus;
+  // Timer and entry mutations resolve to whether they succeeded — failures are surfaced as
+  // `mutationError`, never thrown
+  startTimer: (params: { description?: string; projectId?: string }) => Promise<boolean>;
+  stopTimer: (params?: { stoppedAt?: string }) => Promise<boolean>;
+  resumeTimer: (entryId: string) => Promise<boolean>;
+  createEntry: (params: {
+    description?: string;
+    projectId?: string | null;
+    startedAt: string;
+    stoppedAt: string;
+  }) => Promise<boolean>;
   updateTimer: (params: { description?: string; projectId?: string | null }) => Promise<void>;
   updateEntry: (
     entryId: string,
@@ -46,6 +58,12 @@ interface DataContextValue {
 
 const DEFAULT_TIMER: TimerState = { running: false, entry: null };
 const DEFAULT_STATS: Stats = { todaySeconds: 0, weekSeconds: 0 };
+const DEFAULT_CONNECTIVITY: ConnectivityState = { online: true, reason: null, since: 0 };
+const DEFAULT_SYNC_STATUS: SyncStatus = { pending: 0, retrying: false };
+const POLL_INTERVAL_MS = 5000;
+const OFFLINE_POLL_INTERVAL_MS = 30_000; // the connectivity monitor reports recovery sooner
+const PUSH_POLL_INTERVAL_MS = 60_000; // safety net while server push is connected
+const MAX_POLL_BACKOFF_MS = 120_000;
 
 const DataContext = createContext<DataContextValue | null>(null);
 
@@ -112,12 +130,8 @@ function getEntriesDateRange(): { from: string; to: string } {
   };
 }
 
-// Module-level cache so SettingsContent (outside DataProvider) can read data instantly
-let cachedProjects: ProjectOption[] = [];
+// Module-level cache so SettingsContent (outside DataProvider) can read the default project instantly
 let cachedDefaultProjectId: string | null = null;
-export function getCachedProjects(): ProjectOption[] {
-  return cachedProjects;
-}
 export function getCachedDefaultProjectId(): string | null {
   return cachedDefaultProjectId;
 }
@@ -136,13 +150,18 @@ export function DataProvider({ children }: { children: ReactNode }) {
   const [error, setError] = useState<string | null>(null);
   const [mutationError, setMutationError] = useState<MutationError | null>(null);
   const dismissMutationError = useCallback(() => setMutationError(null), []);
-  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [connectivity, setConnectivity] = useState<ConnectivityState>(DEFAULT_CONNECTIVITY);
+  const [pushConnected, setPushConnected] = useState(false);
+  const [popupVisible, setPopupVisible] = useState(true);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(DEFAULT_SYNC_STATUS);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const timerDirtyUntilRef = useRef<number>(0); // timestamp — suppress poll overwrites until this time
+  const syncPendingRef = useRef(0); // queued offline mutations — the server's timer is behind ours
 
   // Stop polling immediately when auth state changes
   useEffect(() => {
     if (!isAuthenticated && pollRef.current) {
-      clearInterval(pollRef.current);
+      clearTimeout(pollRef.current);
       pollRef.current = null;
     }
   }, [isAuthenticated]);
@@ -153,7 +172,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
 
   const handleApiError = useCallback(
     (err: unknown) => {
-      if (err instanceof ApiError && err.status === 401) {
+      if (err instanceof ApiError && err.code === 'unauthorized') {
         authFailuresRef.current += 1;
         console.warn('[data] 401 error, attempt', authFailuresRef.current);
 
@@ -161,7 +180,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
         if (authFailuresRef.current >= 3) {
           console.error('[data] Persistent 401 — signing out');
           if (pollRef.current) {
-            clearInterval(pollRef.current);
+            clearTimeout(pollRef.current);
             pollRef.current = null;
           }
           authFailuresRef.current = 0;
@@ -169,6 +188,11 @@ export function DataProvider({ children }: { children: ReactNode }) {
         }
         return;
       }
+      // Unreachable API shows as the offline banner (connectivity monitor) — not an error
+      if (err instanceof ApiError && (err.code === 'network' || err.code === 'timeout')) {
+        console.warn('[data] API unreachable:', err.message);
+        return;
+      }
       const message = err instanceof Error ? err.message : 'Unknown error';
       console.error('[data] API error:', message);
       setError(message);
@@ -207,7 +231,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
   const fetchProjects = useCallback(async () => {
     const res = await apiFetch<ProjectOption[]>(apiBaseUrl, environment, '/api/projects');
     setProjects(res);
-    cachedProjects = res;
+    updateCachedData({ projects: res });
   }, [apiBaseUrl, environment]);
 
   const fetchUserProfile = useCallback(async () => {
@@ -215,6 +239,30 @@ export function DataProvider({ children }: { children: ReactNode }) {
     setUserProfile(res);
   }, [apiBaseUrl, environment]);
 
+  // Hydrate from the on-disk cache (stale-while-revalidate) — the initial fetch below
+  // revalidates, and anything it has already set wins
+  useEffect(() => {
+    let cancelled = false;
+    loadCachedData().then((cached) => {
+      if (cancelled || !cached) return;
+      const { timer: cachedTimer, stats: cachedStats, entries: cachedEntries } = cached;
+      const { projects: cachedProjects, profile } = cached;
+      if (cachedTimer) {
+        setTimer((prev) => (prev === DEFAULT_TIMER ? normalizeTimerState(cachedTimer) : prev));
+      }
+      if (cachedStats) setStats((prev) => (prev === DEFAULT_STATS ? cachedStats : prev));
+      if (cachedEntries) {
+        setEntries((prev) => (prev.length === 0 ? normalizeDayGroups(cachedEntries) : prev));
+      }
+      if (cachedProjects) setProjects((prev) => (prev.length === 0 ? cachedProjects : prev));
+      if (profile) setUserProfile((prev) => prev ?? profile);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [environment]);
+
   // Initial fetch on mount
   useEffect(() => {
     let cancelled = false;
@@ -243,22 +291,41 @@ export function DataProvider({ children }: { children: ReactNode }) {
     };
   }, [fetchTimerAndStats, fetchEntries, fetchProjects, fetchUserProfile, handleApiError]);
 
-  // Poll every 5s — always timer+stats, retry entries/projects if they failed
+  // Poll every 5s (30s offline, 60s with server push) while the popup is visible —
+  // always timer+stats, retry entries/projects if they failed. Failures back off with jitter.
   useEffect(() => {
+    if (!popupVisible) return;
+    const interval = pushConnected
+      ? PUSH_POLL_INTERVAL_MS
+      : connectivity.online
+        ? POLL_INTERVAL_MS
+        : OFFLINE_POLL_INTERVAL_MS;
+    let failures = 0;
+    let cancelled = false;
 
-    pollRef.current = setInterval(async () => {
+    const schedule = () => {
+      const delay = Math.min(MAX_POLL_BACKOFF_MS, interval * 2 ** failures);
+      pollRef.current = setTimeout(poll, delay * (1 + Math.random() * 0.2));
+    };
+    const poll = async () => {
       try {
         const promises: Promise<void>[] = [fetchTimerAndStats()];
         if (entries.length === 0) promises.push(fetchEntries());
         if (projects.length === 0) promises.push(fetchProjects());
         await Promise.all(promises);
+        failures = 0;
       } catch (err) {
+        failures++;
         handleApiError(err);
       }
-    }, 5000);
+      // handleApiError clears pollRef when it signs out
+      if (!cancelled && pollRef.current) schedule();
+    };
+    schedule();
 
     return () => {
-      if (pollRef.current) clearInterval(pollRef.current);
+      cancelled = true;
+      if (pollRef.current) clearTimeout(pollRef.current);
     };
   }, [
     fetchTimerAndStats,
@@ -267,65 +334,186 @@ export function DataProvider({ children }: { children: ReactNode }) {
     entries.length,
     projects.length,
     handleApiError,
+    connectivity.online,
+    pushConnected,
+    popupVisible,
   ]);
 
   const refetchAfterMutation = useCallback(async () => {
     await Promise.all([fetchTimerAndStats(), fetchEntries()]);
   }, [fetchTimerAndStats, fetchEntries]);
 
+  // Timer changed from the main process (tray menu, shortcuts) — refetch immediately
+  useEffect(() => {
+    const cleanup = window.electronAPI?.onTimerChanged(() => {
+      timerDirtyUntilRef.current = 0;
+      refetchAfterMutation().catch(handleApiError);
+    });
+    return cleanup;
+  }, [refetchAfterMutation, handleApiError]);
+
+  // Popup visibility — polling pauses while hidden, so refresh as soon as it's shown
+  useEffect(() => {
+    window.electronAPI?.getPopupVisible().then(setPopupVisible);
+    return window.electronAPI?.onPopupVisibility((visible) => {
+      setPopupVisible(visible);
+      if (visible) refetchAfterMutation().catch(handleApiError);
+    });
+  }, [refetchAfterMutation, handleApiError]);
+
+  // Connectivity — catch up immediately on reconnect instead of waiting for the next poll
+  const wasOnlineRef = useRef(true);
+  useEffect(() => {
+    const apply = (state: ConnectivityState) => {
+      const reconnected = !wasOnlineRef.current && state.online;
+      wasOnlineRef.current = state.online;
+      setConnectivity(state);
+      if (reconnected) refetchAfterMutation().catch(handleApiError);
+    };
+    window.electronAPI?.getConnectivity().then(apply);
+    return window.electronAPI?.onConnectivityChange(apply);
+  }, [refetchAfterMutation, handleApiError]);
+
+  // Server push — apply the timer straight away, then refetch stats and entries
+  useEffect(() => {
+    window.electronAPI?.getPushStatus().then(setPushConnected);
+    const cleanupStatus = window.electronAPI?.onPushStatus(setPushConnected);
+    const cleanupEvents = window.electronAPI?.onPushEvent((event) => {
+      if (
+        event.type === 'timer.changed' &&
+        Date.now() >= timerDirtyUntilRef.current &&
+        syncPendingRef.current === 0
+      ) {
+        setTimer(normalizeTimerState(event.data));
+      }
+      refetchAfterMutation().catch(handleApiError);
+    });
+    return () => {
+      cleanupStatus?.();
+      cleanupEvents?.();
+    };
+  }, [refetchAfterMutation, handleApiError]);
+
+  // Offline queue status — once the queue drains, the server is the source of truth again
+  useEffect(() => {
+    const apply = (status: SyncStatus) => {
+      const drained = syncPendingRef.current > 0 && status.pending === 0;
+      syncPendingRef.current = status.pending;
+      setSyncStatus(status);
+      if (drained) {
+        timerDirtyUntilRef.current = 0;
+        refetchAfterMutation().catch(handleApiError);
+      }
+    };
+    window.electronAPI?.getSyncStatus().then(apply);
+    return window.electronAPI?.onSyncStatus(apply);
+  }, [refetchAfterMutation, handleApiError]);
+
+  // Queued mutations answer with the optimistic timer — the server can't be asked yet
+  const applyTimerMutation = useCallback(
+    async (result: { data: TimerState; queued: boolean }) => {
+      if (result.queued) setTimer(normalizeTimerState(result.data));
+      else await refetchAfterMutation();
+    },
+    [refetchAfterMutation],
+  );
+
   const startTimer = useCallback(
     async (params: { description?: string; projectId?: string }) => {
       try {
-        await apiFetch<TimerState>(apiBaseUrl, environment, '/api/timer/start', {
+        const result = await apiMutate<TimerState>(apiBaseUrl, environment, '/api/timer/start', {
           method: 'POST',
           body: { description: params.description, projectId: params.projectId },
         });
         setMutationError(null);
-        await refetchAfterMutation();
+        await applyTimerMutation(result);
+        return true;
       } catch (err) {
         handleApiError(err);
         setMutationError({
           message: 'Failed to start timer',
           retry: () => startTimer(params),
         });
+        return false;
       }
     },
-    [apiBaseUrl, environment, refetchAfterMutation, handleApiError],
+    [apiBaseUrl, environment, applyTimerMutation, handleApiError],
   );
 
-  const stopTimer = useCallback(async () => {
-    try {
-      timerDirtyUntilRef.current = 0; // Clear dirty window so refetch applies
-      await apiFetch<TimerState>(apiBaseUrl, environment, '/api/timer/stop', { method: 'POST' });
-      setMutationError(null);
-      await refetchAfterMutation();
-    } catch (err) {
-      handleApiError(err);
-      setMutationError({
-        message: 'Failed to stop timer',
-        retry: () => stopTimer(),
-      });
-    }
-  }, [apiBaseUrl, environment, refetchAfterMutation, handleApiError]);
+  const stopTimer = useCallback(
+    async (params?: { stoppedAt?: string }) => {
+      try {
+        timerDirtyUntilRef.current = 0; // Clear dirty window so refetch applies
+        const result = await apiMutate<TimerState>(apiBaseUrl, environment, '/api/timer/stop', {
+          method: 'POST',
+          body: params?.stoppedAt ? { stoppedAt: params.stoppedAt } : undefined,
+        });
+        setMutationError(null);
+        await applyTimerMutation(result);
+        return true;
+      } catch (err) {
+        handleApiError(err);
+        setMutationError({
+          message: 'Failed to stop timer',
+          retry: () => stopTimer(params),
+        });
+        return false;
+      }
+    },
+    [apiBaseUrl, environment, applyTimerMutation, handleApiError],
+  );
 
   const resumeTimer = useCallback(
     async (entryId: string) => {
       try {
         timerDirtyUntilRef.current = 0; // Clear dirty window so refetch applies
-        await apiFetch<TimerState>(apiBaseUrl, environment, `/api/timer/resume/${entryId}`, {
-          method: 'POST',
-        });
+        const result = await apiMutate<TimerState>(
+          apiBaseUrl,
+          environment,
+          `/api/timer/resume/${entryId}`,
+          { method: 'POST' },
+        );
         setMutationError(null);
-        await refetchAfterMutation();
+        await applyTimerMutation(result);
+        return true;
       } catch (err) {
         handleApiError(err);
         setMutationError({
           message: 'Failed to resume timer',
           retry: () => resumeTimer(entryId),
         });
+        return false;
+      }
+    },
+    [apiBaseUrl, environment, applyTimerMutation, handleApiError],
+  );
+
+  // Completed entry with explicit bounds (e.g. idle time split off the running timer)
+  const createEntry = useCallback(
+    async (params: {
+      description?: string;
+      projectId?: string | null;
+      startedAt: string;
+      stoppedAt: string;
+    }) => {
+      try {
+        const { queued } = await apiMutate<Entry>(apiBaseUrl, environment, '/api/entries', {
+          method: 'POST',
+          body: params,
+        });
+        setMutationError(null);
+        if (!queued) await fetchEntries();
+        return true;
+      } catch (err) {
+        handleApiError(err);
+        setMutationError({
+          message: 'Failed to create entry',
+          retry: () => createEntry(params),
+        });
+        return false;
       }
     },
-    [apiBaseUrl, environment, refetchAfterMutation, handleApiError],
+    [apiBaseUrl, environment, fetchEntries, handleApiError],
   );
 
   const patchTimerLocal = useCallback(
@@ -410,14 +598,14 @@ export function DataProvider({ children }: { children: ReactNode }) {
           }),
         })),
       );
-      // Fire API call in background, refetch on completion
-      apiFetch(apiBaseUrl, environment, `/api/entries/${entryId}`, {
+      // Fire API call in background, refetch on completion (queued: keep the optimistic list)
+      apiMutate(apiBaseUrl, environment, `/api/entries/${entryId}`, {
         method: 'PATCH',
         body: params,
       })
-        .then(() => {
+        .then(({ queued }) => {
           setMutationError(null);
-          return fetchEntries();
+          if (!queued) return fetchEntries();
         })
         .catch((err) => {
           console.warn('[data] updateEntry failed:', err instanceof Error ? err.message : err);
@@ -443,9 +631,13 @@ export function DataProvider({ children }: { children: ReactNode }) {
         error,
         mutationError,
         dismissMutationError,
+        connectivity,
+        pushConnected,
+        syncStatus,
         startTimer,
         stopTimer,
         resumeTimer,
+        createEntry,
         updateTimer,
         updateEntry,
         patchTimerLocal,